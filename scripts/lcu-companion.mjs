@@ -0,0 +1,125 @@
+// Local companion for the League Client (LCU) API.
+//
+// The client serves its API on a random port, behind a password, both written
+// to a lockfile in its install directory; a browser can't read that file, so
+// this script does and forwards a few read-only endpoints to the app.
+//
+//   node scripts/lcu-companion.mjs
+//
+// Environment:
+//   LCU_LOCKFILE    path of the lockfile (default: the usual install paths)
+//   COMPANION_PORT  port to listen on (default 2997, what vite.config.ts proxies)
+
+import { readFile } from "node:fs/promises";
+import http from "node:http";
+import https from "node:https";
+
+const PORT = Number(process.env.COMPANION_PORT || 2997);
+
+const LOCKFILE_PATHS = process.env.LCU_LOCKFILE
+  ? [process.env.LCU_LOCKFILE]
+  : [
+      "C:\\Riot Games\\League of Legends\\lockfile",
+      "/Applications/League of Legends.app/Contents/LoL/lockfile",
+    ];
+
+// A page on another site can point its own hostname at 127.0.0.1 (DNS
+// rebinding) and then read the companion as same-origin; only requests naming
+// the companion itself get an answer.
+const ALLOWED_HOSTS = new Set([`127.0.0.1:${PORT}`, `localhost:${PORT}`]);
+
+// Only what the app reads; everything else stays out of reach.
+const ALLOWED_PATHS = new Set([
+  "/lol-summoner/v1/current-summoner",
+  "/lol-inventory/v2/inventory/CHAMPION_SKIN",
+]);
+
+/** `LeagueClient:<pid>:<port>:<password>:<protocol>`, or null when not running. */
+async function readLockfile() {
+  for (const path of LOCKFILE_PATHS) {
+    try {
+      const [, , port, password, protocol] = (await readFile(path, "utf8")).trim().split(":");
+      if (port && password) {
+        return { port: Number(port), password, protocol: protocol || "https" };
+      }
+    } catch {
+      // not installed there, or the client isn't running
+    }
+  }
+  return null;
+}
+
+function sendJson(response, status, body) {
+  response.writeHead(status, { "content-type": "application/json" });
+  response.end(JSON.stringify(body));
+}
+
+function forward(lockfile, path, response) {
+  const transport = lockfile.protocol === "http" ? http : https;
+  const request = transport.request(
+    {
+      host: "127.0.0.1",
+      port: lockfile.port,
+      path,
+      method: "GET",
+      headers: {
+        accept: "application/json",
+        authorization: `Basic ${Buffer.from(`riot:${lockfile.password}`).toString("base64")}`,
+      },
+      // the client uses a self-signed certificate
+      rejectUnauthorized: false,
+    },
+    (upstream) => {
+      if (upstream.statusCode === 401 || upstream.statusCode === 403) {
+        upstream.resume();
+        sendJson(response, 502, { error: "auth" });
+        return;
+      }
+      response.writeHead(upstream.statusCode ?? 502, {
+        "content-type": upstream.headers["content-type"] ?? "application/json",
+      });
+      upstream.pipe(response);
+    },
+  );
+
+  request.on("error", () => sendJson(response, 503, { error: "client" }));
+  request.end();
+}
+
+const server = http.createServer(async (request, response) => {
+  const url = new URL(request.url ?? "/", "http://localhost");
+
+  if (!ALLOWED_HOSTS.has(request.headers.host?.toLowerCase() ?? "")) {
+    sendJson(response, 403, { error: "host" });
+    return;
+  }
+
+  if (request.method !== "GET") {
+    sendJson(response, 405, { error: "method" });
+    return;
+  }
+
+  if (url.pathname === "/status") {
+    sendJson(response, 200, { client: (await readLockfile()) !== null });
+    return;
+  }
+
+  const path = url.pathname.replace(/^\/lcu/, "");
+  if (!url.pathname.startsWith("/lcu/") || !ALLOWED_PATHS.has(path)) {
+    sendJson(response, 404, { error: "path" });
+    return;
+  }
+
+  const lockfile = await readLockfile();
+  if (!lockfile) {
+    sendJson(response, 503, { error: "client" });
+    return;
+  }
+
+  forward(lockfile, path, response);
+});
+
+server.listen(PORT, "127.0.0.1", () => {
+  console.log(`LCU companion listening on http://127.0.0.1:${PORT}`);
+  console.log(`Lockfile: ${LOCKFILE_PATHS.join(" or ")}`);
+});
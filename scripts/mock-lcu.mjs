@@ -0,0 +1,65 @@
+// Mock League Client (LCU) API serving the recorded responses in
+// scripts/fixtures/lcu, for working on the LCU import without the game.
+//
+//   node scripts/mock-lcu.mjs
+//   LCU_LOCKFILE=<printed path> node scripts/lcu-companion.mjs
+//
+// It writes a lockfile like the client's, over plain HTTP since a self-signed
+// certificate can't be made without extra tools.
+//
+// Environment:
+//   MOCK_LCU_PORT      port to listen on (default 52437)
+//   MOCK_LCU_FIXTURES  directory of fixtures (default scripts/fixtures/lcu)
+
+import { readFile, rm, writeFile } from "node:fs/promises";
+import http from "node:http";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const PORT = Number(process.env.MOCK_LCU_PORT || 52437);
+const PASSWORD = "mock-password";
+const FIXTURES =
+  process.env.MOCK_LCU_FIXTURES || fileURLToPath(new URL("./fixtures/lcu", import.meta.url));
+const LOCKFILE = join(tmpdir(), "lol-skins-tracker-mock-lcu.lockfile");
+
+const ROUTES = {
+  "/lol-summoner/v1/current-summoner": "current-summoner.json",
+  "/lol-inventory/v2/inventory/CHAMPION_SKIN": "inventory-champion-skin.json",
+};
+
+const EXPECTED_AUTH = `Basic ${Buffer.from(`riot:${PASSWORD}`).toString("base64")}`;
+
+const server = http.createServer(async (request, response) => {
+  const { pathname } = new URL(request.url ?? "/", "http://localhost");
+  console.log(`${request.method} ${pathname}`);
+
+  if (request.headers.authorization !== EXPECTED_AUTH) {
+    response.writeHead(401, { "content-type": "application/json" });
+    response.end(JSON.stringify({ httpStatus: 401, message: "Unauthorized" }));
+    return;
+  }
+
+  const fixture = ROUTES[pathname];
+  if (!fixture) {
+    response.writeHead(404, { "content-type": "application/json" });
+    response.end(JSON.stringify({ httpStatus: 404, message: `No fixture for ${pathname}` }));
+    return;
+  }
+
+  response.writeHead(200, { "content-type": "application/json" });
+  response.end(await readFile(join(FIXTURES, fixture)));
+});
+
+server.listen(PORT, "127.0.0.1", async () => {
+  await writeFile(LOCKFILE, `LeagueClient:${process.pid}:${PORT}:${PASSWORD}:http`);
+  console.log(`Mock LCU listening on http://127.0.0.1:${PORT}`);
+  console.log(`Lockfile: ${LOCKFILE}`);
+});
+
+const shutdown = async () => {
+  await rm(LOCKFILE, { force: true });
+  process.exit(0);
+};
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
@@ -0,0 +1,186 @@
+// Mock Live Client Data API replaying the sessions in scripts/fixtures/live,
+// for working on the in-game features without running a game.
+//
+//   node scripts/mock-live-client.mjs
+//   LIVE_CLIENT_TARGET=http://127.0.0.1:2998 npm run dev
+//
+// A session plays out from the mock's start, or from the last
+// `POST /mock/restart`:
+//   1. loading screen, `loadingSeconds` long: `gamestats` answers with a
+//      stopped clock, the other endpoints with 404;
+//   2. the game: the clock runs from 0, and the events and player `updates`
+//      whose time has come show up;
+//   3. after the "GameEnd" event the clock stops for `closeAfterSeconds`;
+//   4. the game exits: connections are dropped, as nothing listens anymore.
+//
+// `GET /mock/state` tells the phase and the game clock.
+//
+// Environment:
+//   MOCK_LIVE_PORT     port to listen on (default 2998)
+//   MOCK_LIVE_SESSION  session file, in the fixtures or a path (default ranked-ahri-win.json)
+//   MOCK_LIVE_SPEED    how much faster than real time the session runs (default 1)
+//   MOCK_LIVE_LOOP     when set, the session starts over 15 seconds after the game exits
+
+import { readFile } from "node:fs/promises";
+import http from "node:http";
+import { resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const PORT = Number(process.env.MOCK_LIVE_PORT || 2998);
+const SPEED = Number(process.env.MOCK_LIVE_SPEED || 1);
+const LOOP = Boolean(process.env.MOCK_LIVE_LOOP);
+const CLOSED_SECONDS = 15;
+const SESSION_PATH = resolve(
+  fileURLToPath(new URL("./fixtures/live/", import.meta.url)),
+  process.env.MOCK_LIVE_SESSION || "ranked-ahri-win.json",
+);
+
+// trinkets sit in slot 6 whatever their place in the list
+const TRINKETS = new Set([3340, 3363, 3364]);
+
+const session = JSON.parse(await readFile(SESSION_PATH, "utf8"));
+const END_TIME =
+  session.events.find((event) => event.EventName === "GameEnd")?.EventTime ?? Infinity;
+
+let startedAt = Date.now();
+
+/** Phase of the session and game clock, in seconds, at this moment. */
+function currentState() {
+  let elapsed = ((Date.now() - startedAt) / 1000) * SPEED;
+  const closedAt = session.loadingSeconds + END_TIME + session.closeAfterSeconds;
+  if (LOOP && elapsed >= closedAt + CLOSED_SECONDS) {
+    startedAt = Date.now();
+    elapsed = 0;
+  }
+
+  if (elapsed < session.loadingSeconds) {
+    return { phase: "loading", gameTime: 0 };
+  }
+  const gameTime = elapsed - session.loadingSeconds;
+  if (gameTime < END_TIME) {
+    return { phase: "game", gameTime };
+  }
+  return { phase: elapsed < closedAt ? "ended" : "closed", gameTime: END_TIME };
+}
+
+const expandItems = (ids) =>
+  ids.map((itemID, index) => ({
+    itemID,
+    slot: TRINKETS.has(itemID) ? 6 : index,
+    count: 1,
+    ...session.items[itemID],
+  }));
+
+/** The `allgamedata` response at `gameTime`. */
+function gameAt(gameTime) {
+  let activePlayer = session.activePlayer;
+  const players = new Map(session.allPlayers.map((player) => [player.riotId, player]));
+
+  for (const update of session.updates) {
+    if (update.time > gameTime) break;
+    activePlayer = { ...activePlayer, ...update.activePlayer };
+    for (const [riotId, changes] of Object.entries(update.players ?? {})) {
+      players.set(riotId, { ...players.get(riotId), ...changes });
+    }
+  }
+
+  return {
+    activePlayer,
+    allPlayers: [...players.values()].map((player) => ({
+      ...player,
+      items: expandItems(player.items),
+    })),
+    events: { Events: session.events.filter((event) => event.EventTime <= gameTime) },
+    gameData: { ...session.gameData, gameTime: Math.round(gameTime * 1000) / 1000 },
+  };
+}
+
+function sendJson(response, status, body) {
+  response.writeHead(status, { "content-type": "application/json" });
+  response.end(JSON.stringify(body));
+}
+
+// the shape of the game's own errors
+const notFound = (response, message) =>
+  sendJson(response, 404, {
+    errorCode: "RESOURCE_NOT_FOUND",
+    httpStatus: 404,
+    implementationDetails: {},
+    message,
+  });
+
+function findPlayer(game, url) {
+  const riotId = url.searchParams.get("riotId") ?? url.searchParams.get("summonerName");
+  return game.allPlayers.find((player) => player.riotId === riotId);
+}
+
+const ROUTES = {
+  allgamedata: (game) => game,
+  activeplayer: (game) => game.activePlayer,
+  activeplayername: (game) => game.activePlayer.riotId,
+  playerlist: (game, url) => {
+    const team = url.searchParams.get("teamID");
+    return team ? game.allPlayers.filter((player) => player.team === team) : game.allPlayers;
+  },
+  playerscores: (game, url) => findPlayer(game, url)?.scores,
+  playeritems: (game, url) => findPlayer(game, url)?.items,
+  eventdata: (game, url) => {
+    const from = Number(url.searchParams.get("eventID") ?? 0);
+    return { Events: game.events.Events.filter((event) => event.EventID >= from) };
+  },
+  gamestats: (game) => game.gameData,
+};
+
+const server = http.createServer((request, response) => {
+  const url = new URL(request.url ?? "/", "http://localhost");
+  const state = currentState();
+  console.log(`${request.method} ${url.pathname} (${state.phase}, ${Math.floor(state.gameTime)}s)`);
+
+  if (url.pathname === "/mock/state") {
+    sendJson(response, 200, { ...state, session: SESSION_PATH, speed: SPEED });
+    return;
+  }
+
+  if (url.pathname === "/mock/restart" && request.method === "POST") {
+    startedAt = Date.now();
+    sendJson(response, 200, currentState());
+    return;
+  }
+
+  if (state.phase === "closed") {
+    request.socket.destroy();
+    return;
+  }
+
+  const route = ROUTES[url.pathname.replace(/^\/liveclientdata\//, "")];
+  if (!url.pathname.startsWith("/liveclientdata/") || !route) {
+    notFound(response, `No route for ${url.pathname}`);
+    return;
+  }
+
+  if (state.phase === "loading") {
+    if (url.pathname === "/liveclientdata/gamestats") {
+      sendJson(response, 200, { ...session.gameData, gameTime: 0 });
+    } else {
+      notFound(response, "Game is loading");
+    }
+    return;
+  }
+
+  const body = route(gameAt(state.gameTime), url);
+  if (body === undefined) {
+    sendJson(response, 400, {
+      errorCode: "INVALID_PARAMETER",
+      httpStatus: 400,
+      implementationDetails: {},
+      message: "No player matches the riotId",
+    });
+    return;
+  }
+  sendJson(response, 200, body);
+});
+
+server.listen(PORT, "127.0.0.1", () => {
+  console.log(`Mock Live Client listening on http://127.0.0.1:${PORT}`);
+  console.log(`Session: ${SESSION_PATH} (x${SPEED}${LOOP ? ", looping" : ""})`);
+});
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import {
+  ACQUISITION_SOURCES,
+  sanitizeAcquisition,
+  type Acquisition,
+  type AcquisitionSource,
+  type Currency,
+} from "./collection";
+import { useI18n } from "./i18n";
+
+type AcquisitionEditorProps = {
+  acquisition: Acquisition | undefined;
+  label: string;
+  onChange: (acquisition: Acquisition | undefined) => void;
+};
+
+/**
+ * Inline fields for a skin's acquisition. The cost is only committed on blur
+ * or Enter so typing a number doesn't record one history step per digit;
+ * render it with a `key` derived from `acquisition` to pick up outside changes.
+ */
+export default function AcquisitionEditor({
+  acquisition,
+  label,
+  onChange,
+}: AcquisitionEditorProps) {
+  const { t } = useI18n();
+  const [cost, setCost] = useState(
+    acquisition?.cost !== undefined ? String(acquisition.cost) : "",
+  );
+
+  const update = (changes: Partial<Acquisition>) =>
+    onChange(sanitizeAcquisition({ ...acquisition, ...changes }));
+
+  const commitCost = () => {
+    const value = cost.trim() === "" ? undefined : Number(cost);
+    if (value !== acquisition?.cost) {
+      update({ cost: value });
+    }
+  };
+
+  return (
+    <div className="acquisition" role="group" aria-label={t.acquisition.label(label)}>
+      <input
+        type="date"
+        value={acquisition?.date ?? ""}
+        onChange={(event) => update({ date: event.target.value || undefined })}
+        aria-label={t.acquisition.date}
+        className="text-input"
+      />
+      <select
+        value={acquisition?.source ?? ""}
+        onChange={(event) =>
+          update({ source: (event.target.value || undefined) as AcquisitionSource | undefined })
+        }
+        aria-label={t.acquisition.source}
+        className="select-input"
+      >
+        <option value="">{t.acquisition.noSource}</option>
+        {ACQUISITION_SOURCES.map((source) => (
+          <option key={source} value={source}>
+            {t.acquisition.sources[source]}
+          </option>
+        ))}
+      </select>
+      <input
+        type="number"
+        min={0}
+        step={1}
+        inputMode="numeric"
+        value={cost}
+        onChange={(event) => setCost(event.target.value)}
+        onBlur={commitCost}
+        onKeyDown={(event) => {
+          if (event.key === "Enter") {
+            commitCost();
+          }
+        }}
+        placeholder={t.acquisition.cost}
+        aria-label={t.acquisition.cost}
+        className="text-input"
+      />
+      <select
+        value={acquisition?.currency ?? "rp"}
+        onChange={(event) => update({ currency: event.target.value as Currency })}
+        aria-label={t.acquisition.currency}
+        className="select-input"
+      >
+        <option value="rp">{t.acquisition.currencies.rp}</option>
+        <option value="essence">{t.acquisition.currencies.essence}</option>
+      </select>
+    </div>
+  );
+}
@@ -1,32 +1,148 @@
-import { useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import LolSkinsTracker from "./LolSkinsTracker";
 import ConnectedAccountPage from "./ConnectedAccountPage";
+import StatsPage from "./StatsPage";
+import ProfileSwitcher from "./ProfileSwitcher";
+import { I18nContext, LOCALES, loadLocale, messagesFor, saveLocale, type Locale } from "./i18n";
+import {
+	addProfile,
+	linkRiotId,
+	loadProfiles,
+	removeProfile,
+	saveProfiles,
+	updateProfile,
+	type ProfileState,
+} from "./profiles";
+import { removePlayedGames } from "./playedGames";
+import { removeSeenGames } from "./seenGames";
+import { useLiveGame } from "./useLiveGame";
+import type { Champion } from "./collection";
+import { readChampions, removeChampions } from "./storage";
 
-type Page = "skins" | "account";
+type Page = "skins" | "stats" | "account";
 
 export default function App() {
 	const [page, setPage] = useState<Page>("skins");
+	const [locale, setLocale] = useState<Locale>(loadLocale);
+	const [profileState, setProfileState] = useState<ProfileState>(loadProfiles);
+	// The tracker's collection, as last shown: stats read it rather than storage,
+	// which may lag behind when a save failed.
+	const [collection, setCollection] = useState<{ profileId: string; champions: Champion[] } | null>(
+		null,
+	);
+
+	useEffect(() => {
+		saveLocale(locale);
+		document.documentElement.lang = locale.slice(0, 2);
+	}, [locale]);
+
+	useEffect(() => {
+		saveProfiles(profileState);
+	}, [profileState]);
+
+	const i18n = useMemo(() => ({ locale, setLocale, t: messagesFor(locale) }), [locale]);
+	const { t } = i18n;
+
+	const activeProfile =
+		profileState.profiles.find((profile) => profile.id === profileState.activeId) ??
+		profileState.profiles[0];
+
+	const activeProfileId = activeProfile.id;
+	// followed here so games are recorded whatever page is open
+	const live = useLiveGame(activeProfileId);
+	const showCollection = useCallback(
+		(champions: Champion[]) => setCollection({ profileId: activeProfileId, champions }),
+		[activeProfileId],
+	);
+
+	// A profile not opened in the tracker yet is read from storage.
+	const statsChampions = useMemo(
+		() =>
+			page !== "stats"
+				? []
+				: collection?.profileId === activeProfileId
+					? collection.champions
+					: readChampions(activeProfileId),
+		[page, collection, activeProfileId],
+	);
+
+	const selectProfile = (id: string) => setProfileState((previous) => ({ ...previous, activeId: id }));
+
+	const deleteProfile = (id: string) => {
+		setProfileState((previous) => removeProfile(previous, id));
+		removeChampions(id);
+		removeSeenGames(id);
+		removePlayedGames(id);
+	};
 
 	return (
-		<div>
-			<nav className="top-nav">
-				<button
-					type="button"
-					className={page === "skins" ? "top-nav__button is-active" : "top-nav__button"}
-					onClick={() => setPage("skins")}
-				>
-					Suivi des skins
-				</button>
-				<button
-					type="button"
-					className={page === "account" ? "top-nav__button is-active" : "top-nav__button"}
-					onClick={() => setPage("account")}
-				>
-					Compte connecté
-				</button>
-			</nav>
-
-			{page === "skins" ? <LolSkinsTracker /> : <ConnectedAccountPage />}
-		</div>
+		<I18nContext.Provider value={i18n}>
+			<div>
+				<nav className="top-nav">
+					<button
+						type="button"
+						className={page === "skins" ? "top-nav__button is-active" : "top-nav__button"}
+						onClick={() => setPage("skins")}
+					>
+						{t.nav.skins}
+					</button>
+					<button
+						type="button"
+						className={page === "stats" ? "top-nav__button is-active" : "top-nav__button"}
+						onClick={() => setPage("stats")}
+					>
+						{t.nav.stats}
+					</button>
+					<ProfileSwitcher
+						profiles={profileState.profiles}
+						activeId={activeProfile.id}
+						onSelect={selectProfile}
+						onCreate={(name) => setProfileState((previous) => addProfile(previous, name))}
+						onRename={(id, name) => setProfileState((previous) => updateProfile(previous, id, { name }))}
+						onDelete={deleteProfile}
+					/>
+					<button
+						type="button"
+						className={page === "account" ? "top-nav__button is-active" : "top-nav__button"}
+						onClick={() => setPage("account")}
+					>
+						{t.nav.account}
+					</button>
+					<select
+						value={locale}
+						onChange={(event) => setLocale(event.target.value as Locale)}
+						aria-label={t.nav.language}
+						className="select-input"
+					>
+						{LOCALES.map((option) => (
+							<option key={option.value} value={option.value}>
+								{option.label}
+							</option>
+						))}
+					</select>
+				</nav>
+
+				{page === "skins" ? (
+					<LolSkinsTracker
+						key={activeProfile.id}
+						profile={activeProfile}
+						onChampionsChange={showCollection}
+						live={live}
+					/>
+				) : page === "stats" ? (
+					<StatsPage key={activeProfile.id} profile={activeProfile} champions={statsChampions} />
+				) : (
+					<ConnectedAccountPage
+						profiles={profileState.profiles}
+						activeProfile={activeProfile}
+						live={live}
+						onSelectProfile={selectProfile}
+						onLinkRiotId={(riotId) =>
+							setProfileState((previous) => linkRiotId(previous, activeProfile.id, riotId))
+						}
+					/>
+				)}
+			</div>
+		</I18nContext.Provider>
 	);
 }
@@ -1,94 +1,41 @@
-import { useState } from "react";
-
-type ActivePlayer = {
-  riotId?: string;
-  riotIdGameName?: string;
-  riotIdTagLine?: string;
-  summonerName?: string;
-  championStats?: Record<string, unknown>;
-  level?: number;
-  currentGold?: number;
-  fullRunes?: Record<string, unknown>;
-};
-
-type LocalPlayer = {
-  riotId?: string;
-  riotIdGameName?: string;
-  riotIdTagLine?: string;
-  summonerName?: string;
-  championName?: string;
-  rawChampionName?: string;
-  skinID?: number;
-  team?: string;
-  level?: number;
+import { useI18n } from "./i18n";
+import LiveGameFeed from "./LiveGameFeed";
+import { riotIdOf } from "./liveClient";
+import { profileName, type Profile } from "./profiles";
+import type { LiveGameState } from "./useLiveGame";
+
+type ConnectedAccountPageProps = {
+  profiles: Profile[];
+  activeProfile: Profile;
+  /** The game followed by the app; this page only shows it. */
+  live: LiveGameState;
+  onSelectProfile: (id: string) => void;
+  onLinkRiotId: (riotId: string) => void;
 };
 
-export default function ConnectedAccountPage() {
-  const [loading, setLoading] = useState(false);
-  const [status, setStatus] = useState("Clique sur le bouton pour tester le client local.");
-  const [activePlayer, setActivePlayer] = useState<ActivePlayer | null>(null);
-  const [players, setPlayers] = useState<LocalPlayer[]>([]);
-
-  const checkLocalClient = async () => {
-    setLoading(true);
-    setStatus("Connexion au client local...");
-
-    try {
-      const gameResponse = await fetch("/riot-local/liveclientdata/gamestats");
-
-      if (gameResponse.status === 404) {
-        setActivePlayer(null);
-        setPlayers([]);
-        setStatus("Aucune partie en cours. Ouvre une game puis réessaie.");
-        return;
-      }
-
-      if (!gameResponse.ok) {
-        throw new Error(`gamestats: ${gameResponse.status}`);
-      }
-
-      const [activeResponse, playersResponse] = await Promise.all([
-        fetch("/riot-local/liveclientdata/activeplayer"),
-        fetch("/riot-local/liveclientdata/playerlist"),
-      ]);
-
-      if (activeResponse.status === 404 || playersResponse.status === 404) {
-        setActivePlayer(null);
-        setPlayers([]);
-        setStatus("Le client est ouvert, mais aucune partie exploitable n'est détectée.");
-        return;
-      }
-
-      if (!activeResponse.ok) {
-        throw new Error(`activeplayer: ${activeResponse.status}`);
-      }
-
-      if (!playersResponse.ok) {
-        throw new Error(`playerlist: ${playersResponse.status}`);
-      }
-
-      const active = (await activeResponse.json()) as ActivePlayer;
-      const list = (await playersResponse.json()) as LocalPlayer[];
-
-      setActivePlayer(active);
-      setPlayers(list);
-      setStatus("Données du client local chargées.");
-    } catch (caughtError) {
-      setActivePlayer(null);
-      setPlayers([]);
-      const message = caughtError instanceof Error ? caughtError.message : "";
-      setStatus(
-        message.includes("Failed to fetch")
-          ? "Le client League n'est pas accessible. Lance le client, puis réessaie."
-          : message || "Impossible de joindre le client local Riot.",
-      );
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const localPlayer = activePlayer?.riotId
-    ? players.find((player) => player.riotId === activePlayer.riotId)
+export default function ConnectedAccountPage({
+  profiles,
+  activeProfile,
+  live,
+  onSelectProfile,
+  onLinkRiotId,
+}: ConnectedAccountPageProps) {
+  const { t } = useI18n();
+  const { status, loading, activePlayer, players, events, phase, refresh } = live;
+
+  const statusText =
+    status === "connecting" || status === "loaded"
+      ? t.account[status]
+      : t.account.errors[status];
+
+  const riotId = activePlayer ? riotIdOf(activePlayer) : null;
+  const linkedProfile = riotId
+    ? profiles.find((profile) => profile.riotId === riotId)
+    : undefined;
+  const nameOf = (profile: Profile) => profileName(profile, t.profiles.defaultName);
+
+  const localPlayer = riotId
+    ? players.find((player) => riotIdOf(player) === riotId)
     : players[0];
 
   return (
@@ -96,94 +43,115 @@ export default function ConnectedAccountPage() {
       <div className="tracker-card account-card">
         <header className="tracker-header">
           <div>
-            <p className="eyebrow">Compte connecté</p>
-            <h1>Infos du client local</h1>
-            <p className="subtitle">
-              Cette page lit le client League en local si une partie est en cours.
-              L’API publique Riot ne fournit pas l’inventaire de skins possédés.
-            </p>
+            <p className="eyebrow">{t.account.eyebrow}</p>
+            <h1>{t.account.title}</h1>
+            <p className="subtitle">{t.account.intro}</p>
             <p className="subtitle" style={{ marginTop: 8 }}>
-              {status}
+              {statusText}
             </p>
           </div>
 
           <div className="toolbar">
-            <button type="button" className="action-button" onClick={checkLocalClient} disabled={loading}>
-              {loading ? "Connexion…" : "Lire le client local"}
+            <button
+              type="button"
+              className="action-button"
+              onClick={refresh}
+              disabled={loading}
+            >
+              {loading ? t.account.connectingButton : t.account.readButton}
             </button>
           </div>
         </header>
 
-        <div className="notice">{status}</div>
+        <div className="notice">{statusText}</div>
 
         <section className="account-grid">
           <article className="info-card">
-            <h2>Ce que la page peut lire</h2>
-            <p>
-              Riot expose le joueur actif, le Riot ID, le champion joué, le skinID,
-              le niveau, les runes et quelques stats pendant une partie.
-            </p>
+            <h2>{t.account.canReadTitle}</h2>
+            <p>{t.account.canReadBody}</p>
           </article>
 
           <article className="info-card">
-            <h2>Ce qu’elle ne peut pas lire</h2>
-            <p>
-              La liste complète des skins possédés par un compte n’est pas exposée par
-              l’API publique standard. Pour ça, il faudrait un flux local dédié ou un
-              backend autorisé par Riot.
-            </p>
+            <h2>{t.account.cannotReadTitle}</h2>
+            <p>{t.account.cannotReadBody}</p>
           </article>
         </section>
 
         <section className="account-details">
           <div className="detail-row">
-            <span className="detail-label">Riot ID</span>
-            <span className="detail-value">{activePlayer?.riotId ?? "Aucune donnée"}</span>
+            <span className="detail-label">{t.account.riotId}</span>
+            <span className="detail-value">{activePlayer?.riotId ?? t.account.noData}</span>
           </div>
           <div className="detail-row">
-            <span className="detail-label">Compte</span>
+            <span className="detail-label">{t.account.accountLabel}</span>
             <span className="detail-value">
               {activePlayer?.riotIdGameName && activePlayer?.riotIdTagLine
                 ? `${activePlayer.riotIdGameName}#${activePlayer.riotIdTagLine}`
-                : activePlayer?.summonerName ?? "Aucune donnée"}
+                : activePlayer?.summonerName ?? t.account.noData}
             </span>
           </div>
           <div className="detail-row">
-            <span className="detail-label">Niveau</span>
-            <span className="detail-value">{activePlayer?.level ?? "Aucune donnée"}</span>
+            <span className="detail-label">{t.account.level}</span>
+            <span className="detail-value">{activePlayer?.level ?? t.account.noData}</span>
           </div>
           <div className="detail-row">
-            <span className="detail-label">Gold</span>
+            <span className="detail-label">{t.account.gold}</span>
             <span className="detail-value">
               {typeof activePlayer?.currentGold === "number"
                 ? Math.round(activePlayer.currentGold)
-                : "Aucune donnée"}
+                : t.account.noData}
             </span>
           </div>
           <div className="detail-row">
-            <span className="detail-label">Champion</span>
+            <span className="detail-label">{t.account.champion}</span>
             <span className="detail-value">
-              {localPlayer?.championName ?? localPlayer?.rawChampionName ?? "Aucune donnée"}
+              {localPlayer?.championName ?? localPlayer?.rawChampionName ?? t.account.noData}
             </span>
           </div>
           <div className="detail-row">
-            <span className="detail-label">Skin ID en jeu</span>
+            <span className="detail-label">{t.account.skinId}</span>
             <span className="detail-value">
-              {typeof localPlayer?.skinID === "number" ? localPlayer.skinID : "Aucune donnée"}
+              {typeof localPlayer?.skinID === "number" ? localPlayer.skinID : t.account.noData}
             </span>
           </div>
           <div className="detail-row">
-            <span className="detail-label">Équipe</span>
-            <span className="detail-value">{localPlayer?.team ?? "Aucune donnée"}</span>
+            <span className="detail-label">{t.account.team}</span>
+            <span className="detail-value">{localPlayer?.team ?? t.account.noData}</span>
+          </div>
+          <div className="detail-row">
+            <span className="detail-label">{t.account.profile}</span>
+            <span className="detail-value">
+              {!riotId ? (
+                t.account.noData
+              ) : linkedProfile?.id === activeProfile.id ? (
+                t.account.linkedToActive(nameOf(activeProfile))
+              ) : linkedProfile ? (
+                <button
+                  type="button"
+                  className="action-button"
+                  onClick={() => onSelectProfile(linkedProfile.id)}
+                >
+                  {t.account.switchToProfile(nameOf(linkedProfile))}
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  className="action-button"
+                  onClick={() => onLinkRiotId(riotId)}
+                >
+                  {t.account.linkToProfile(nameOf(activeProfile))}
+                </button>
+              )}
+            </span>
           </div>
         </section>
 
+        {phase ? (
+          <LiveGameFeed riotId={riotId} players={players} events={events} phase={phase} />
+        ) : null}
+
         <section className="account-footer">
-          <p>
-            Pour lire un compte hors partie, il faut passer par le client League local
-            avec ses endpoints internes, ou par un backend Riot autorisé avec login RSO.
-            L’API Live Client seule ne peut pas donner ces données hors game.
-          </p>
+          <p>{t.account.footer}</p>
         </section>
       </div>
     </div>
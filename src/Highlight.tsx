@@ -0,0 +1,28 @@
+import type { ReactNode } from "react";
+
+type HighlightProps = {
+  text: string;
+  /** `[start, end)` ranges of `text`, sorted and not overlapping. */
+  ranges: [number, number][];
+};
+
+export default function Highlight({ text, ranges }: HighlightProps) {
+  if (ranges.length === 0) {
+    return <>{text}</>;
+  }
+
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+  for (const [start, end] of ranges) {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(
+      <mark key={start} className="search-hit">
+        {text.slice(start, end)}
+      </mark>,
+    );
+    cursor = end;
+  }
+  if (cursor < text.length) parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+}
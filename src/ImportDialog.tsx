@@ -0,0 +1,223 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  diffImport,
+  mergeImportedChampions,
+  type Champion,
+  type ChampionImportDiff,
+  type ImportDiff,
+  type ImportStrategy,
+} from "./collection";
+import { useI18n } from "./i18n";
+import type { SkippedRow } from "./spreadsheet";
+
+type StrategyChoice = ImportStrategy | "custom";
+
+const STRATEGIES: ImportStrategy[] = ["replace", "union", "local"];
+
+const NO_CHANGES = { added: [], removed: [], owned: [], unowned: [], restatus: [] };
+
+type ImportDialogProps = {
+  fileName: string;
+  /**
+   * The diff a replacing import makes, or the reason the file couldn't be
+   * read. `note` is shown under the diff, e.g. for entries the source couldn't
+   * match.
+   */
+  preview: { diff: ImportDiff; skipped: SkippedRow[]; note?: string } | { error: string };
+  /** The collection and the file's champions, to preview other strategies. */
+  current: Champion[];
+  imported: Champion[];
+  labelOf: (championId: string) => string;
+  onApply: (strategyOf: (championId: string) => ImportStrategy) => void;
+  onCancel: () => void;
+};
+
+export default function ImportDialog({
+  fileName,
+  preview,
+  current,
+  imported,
+  labelOf,
+  onApply,
+  onCancel,
+}: ImportDialogProps) {
+  const { t } = useI18n();
+  const [strategy, setStrategy] = useState<StrategyChoice>("replace");
+  const [choices, setChoices] = useState<Record<string, ImportStrategy>>({});
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        onCancel();
+      }
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onCancel]);
+
+  const diff = "diff" in preview ? preview.diff : null;
+  const skipped = "skipped" in preview ? preview.skipped : [];
+
+  // What the chosen strategy will actually change, by champion.
+  const changes = useMemo(() => {
+    const strategyOf = (championId: string): ImportStrategy =>
+      strategy === "custom" ? (choices[championId] ?? "replace") : strategy;
+    const merged = mergeImportedChampions(current, imported, strategyOf);
+    return new Map(
+      diffImport(current, merged).champions.map((champion) => [champion.championId, champion]),
+    );
+  }, [current, imported, strategy, choices]);
+
+  // Per champion, every champion the file touches stays listed for its select.
+  const listed = (diff?.champions ?? []).flatMap((champion): ChampionImportDiff[] => {
+    const change = changes.get(champion.championId);
+    if (change) return [change];
+    return strategy === "custom" ? [{ ...champion, ...NO_CHANGES }] : [];
+  });
+  const canApply = changes.size > 0;
+
+  const apply = () => {
+    onApply((championId) =>
+      strategy === "custom" ? (choices[championId] ?? "replace") : strategy,
+    );
+  };
+
+  return (
+    <div className="dialog-backdrop" onClick={onCancel}>
+      <div
+        className="dialog"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-dialog-title"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <h2 id="import-dialog-title">{t.importDialog.title(fileName)}</h2>
+
+        {"error" in preview ? (
+          <div className="notice notice--error">{t.tracker.importFailed(preview.error)}</div>
+        ) : null}
+
+        {diff && diff.champions.length === 0 ? (
+          <p className="empty-inline">{t.importDialog.noChanges}</p>
+        ) : null}
+
+        {diff && diff.champions.length > 0 ? (
+          <>
+            <fieldset className="import-strategies">
+              <legend>{t.importDialog.strategyLabel}</legend>
+              {[...STRATEGIES, "custom" as const].map((value) => (
+                <label key={value}>
+                  <input
+                    type="radio"
+                    name="import-strategy"
+                    value={value}
+                    checked={strategy === value}
+                    onChange={() => setStrategy(value)}
+                  />
+                  {t.importDialog.strategies[value]}
+                </label>
+              ))}
+              <p className="detail-label">{t.importDialog.strategyHints[strategy]}</p>
+            </fieldset>
+
+            {listed.length === 0 ? (
+              <p className="empty-inline">{t.importDialog.noChanges}</p>
+            ) : null}
+
+            <ul className="import-diff">
+              {listed.map((champion) => {
+                const label = labelOf(champion.championId);
+                const sections = [
+                  { key: "added", names: champion.added },
+                  { key: "removed", names: champion.removed },
+                  { key: "owned", names: champion.owned },
+                  { key: "unowned", names: champion.unowned },
+                  {
+                    key: "restatus",
+                    names: champion.restatus.map(
+                      (change) =>
+                        `${change.name} (${t.status[change.from]} → ${t.status[change.to]})`,
+                    ),
+                  },
+                ] as const;
+
+                return (
+                  <li key={champion.championId} className="import-diff__champion">
+                    <div className="import-diff__header">
+                      <strong>{label}</strong>
+                      {strategy === "custom" ? (
+                        <select
+                          value={choices[champion.championId] ?? "replace"}
+                          onChange={(event) =>
+                            setChoices((previous) => ({
+                              ...previous,
+                              [champion.championId]: event.target.value as ImportStrategy,
+                            }))
+                          }
+                          aria-label={t.importDialog.championStrategy(label)}
+                          className="select-input"
+                        >
+                          {STRATEGIES.map((value) => (
+                            <option key={value} value={value}>
+                              {t.importDialog.strategies[value]}
+                            </option>
+                          ))}
+                        </select>
+                      ) : null}
+                    </div>
+
+                    {sections
+                      .filter((section) => section.names.length > 0)
+                      .map((section) => (
+                        <p
+                          key={section.key}
+                          className={`import-diff__line import-diff__line--${section.key}`}
+                        >
+                          <span className="detail-label">{t.importDialog[section.key]}</span>{" "}
+                          {section.names.join(", ")}
+                        </p>
+                      ))}
+                  </li>
+                );
+              })}
+            </ul>
+          </>
+        ) : null}
+
+        {diff && diff.unmatched.length > 0 ? (
+          <p className="detail-label">{t.importDialog.unmatched(diff.unmatched.join(", "))}</p>
+        ) : null}
+
+        {"note" in preview && preview.note ? (
+          <p className="detail-label">{preview.note}</p>
+        ) : null}
+
+        {skipped.length > 0 ? (
+          <details className="notice notice--error">
+            <summary>{t.importDialog.skipped(skipped.length)}</summary>
+            <ul className="import-skipped">
+              {skipped.map((row) => (
+                <li key={row.line}>{t.importDialog.skippedRow(row)}</li>
+              ))}
+            </ul>
+          </details>
+        ) : null}
+
+        <div className="toolbar compact">
+          <button
+            type="button"
+            onClick={apply}
+            className="action-button"
+            disabled={!canApply}
+          >
+            {t.importDialog.apply}
+          </button>
+          <button type="button" onClick={onCancel} className="action-button">
+            {t.importDialog.cancel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
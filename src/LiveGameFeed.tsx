@@ -0,0 +1,132 @@
+import { useMemo } from "react";
+import { useI18n } from "./i18n";
+import { riotIdOf, type LiveEvent, type LivePlayer, type LiveTeam } from "./liveClient";
+import {
+  buildFeed,
+  findPlayerNamed,
+  formatGameTime,
+  summarizeGame,
+  type FeedEntry,
+  type FeedPhase,
+} from "./liveFeed";
+
+type LiveGameFeedProps = {
+  /** The local player's Riot ID, to pick their line in `playerlist`. */
+  riotId: string | null;
+  players: LivePlayer[];
+  events: LiveEvent[];
+  phase: FeedPhase;
+};
+
+export default function LiveGameFeed({ riotId, players, events, phase }: LiveGameFeedProps) {
+  const { t } = useI18n();
+  const self = riotId ? players.find((player) => riotIdOf(player) === riotId) : undefined;
+  const feed = useMemo(() => buildFeed(events, players, self), [events, players, self]);
+  const summary = phase === "live" ? null : summarizeGame(events, feed);
+
+  const nameOf = (name: string | undefined): string => {
+    const player = findPlayerNamed(players, name);
+    if (player) return player.championName;
+    if (name?.startsWith("Minion_")) return t.feed.minion;
+    if (name?.startsWith("Turret_")) return t.feed.turret;
+    if (name?.startsWith("SRU_")) return t.feed.monster;
+    return name ?? t.feed.unknown;
+  };
+
+  const describe = ({ event, kind }: FeedEntry): string => {
+    const killer = nameOf(event.KillerName);
+    const stolen = event.Stolen === "True";
+    switch (kind) {
+      case "kill":
+        return t.feed.events.kill(killer, nameOf(event.VictimName));
+      case "multikill":
+        return t.feed.events.multikill(killer, event.KillStreak ?? 2);
+      case "dragon": {
+        const type = event.DragonType ?? "";
+        const dragon =
+          type in t.feed.dragonTypes
+            ? t.feed.dragonTypes[type as keyof typeof t.feed.dragonTypes]
+            : type;
+        return t.feed.events.dragon(killer, dragon, stolen);
+      }
+      case "baron":
+        return t.feed.events.baron(killer, stolen);
+      case "turret":
+        return t.feed.events.turret(killer);
+    }
+  };
+
+  const teamLabel = (team: LiveTeam): string =>
+    self?.team === team ? t.feed.yourTeam(t.feed.teams[team]) : t.feed.teams[team];
+
+  return (
+    <section className="live-feed">
+      <div className="live-feed__header">
+        <h2>{phase === "live" ? t.feed.title : t.feed.summaryTitle}</h2>
+        <span className="live-feed__phase">{t.feed.phases[phase]}</span>
+      </div>
+
+      {summary ? (
+        <div className="live-feed__summary">
+          <p>
+            <strong>{summary.result ? t.feed.results[summary.result] : t.feed.noResult}</strong>
+            {" · "}
+            {t.feed.duration(formatGameTime(summary.duration))}
+          </p>
+          {(["ORDER", "CHAOS"] as const).map((team) => (
+            <p key={team}>
+              {t.feed.objectives(
+                teamLabel(team),
+                summary.objectives[team].dragons,
+                summary.objectives[team].barons,
+                summary.objectives[team].turrets,
+              )}
+            </p>
+          ))}
+        </div>
+      ) : null}
+
+      {self ? (
+        <div className="account-details">
+          <div className="detail-row">
+            <span className="detail-label">{t.feed.kda}</span>
+            <span className="detail-value">
+              {self.scores.kills}/{self.scores.deaths}/{self.scores.assists}
+            </span>
+          </div>
+          <div className="detail-row">
+            <span className="detail-label">{t.feed.cs}</span>
+            <span className="detail-value">{self.scores.creepScore}</span>
+          </div>
+          <div className="detail-row">
+            <span className="detail-label">{t.feed.items}</span>
+            <span className="detail-value">
+              {self.items.length > 0
+                ? [...self.items]
+                    .sort((a, b) => a.slot - b.slot)
+                    .map((item) => item.displayName)
+                    .join(", ")
+                : t.feed.noItems}
+            </span>
+          </div>
+        </div>
+      ) : null}
+
+      {feed.length === 0 ? (
+        <p className="empty-inline">{t.feed.empty}</p>
+      ) : (
+        <ol className="live-feed__events">
+          {[...feed].reverse().map((entry) => (
+            <li
+              key={entry.event.EventID}
+              className={`live-feed__event${entry.involvesSelf ? " live-feed__event--self" : ""}`}
+            >
+              <span className="live-feed__time">{formatGameTime(entry.event.EventTime)}</span>
+              <span>{describe(entry)}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+}
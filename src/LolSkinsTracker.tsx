@@ -1,601 +1,592 @@
-import { useEffect, useMemo, useRef, useState } from "react";
-
-type Skin = {
-  id: string;
-  name: string;
-  checked: boolean;
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  fetchChampionIndex,
+  fetchDdragonLatestVersion,
+  type DDragonChampionIndex,
+} from "./ddragon";
+import {
+  buildKeyMap,
+  DDRAGON_SOURCE,
+  fetchChampionSkins,
+  rosterFromIndex,
+} from "./catalog";
+import {
+  baseSkinName,
+  diffImport,
+  findGameChampion,
+  findGameSkin,
+  groupSkins,
+  groupStatus,
+  mergeChampionInto,
+  mergeImportedChampions,
+  mergeSkins,
+  needsCatalogSync,
+  normalize,
+  reconcileRoster,
+  SKIN_STATUSES,
+  syncCatalogSkins,
+  uid,
+  type CatalogSkin,
+  type Acquisition,
+  type Champion,
+  type ImportDiff,
+  type ImportStrategy,
+  type Skin,
+  type SkinStatus,
+} from "./collection";
+import {
+  downloadLatestBackup,
+  downloadStoredChampions,
+  historyKey,
+  exportChampions,
+  exportChampionsTable,
+  loadChampions,
+  parseImportedCollection,
+  saveChampions,
+  StorageError,
+  type StorageIssue,
+} from "./storage";
+import { useI18n, type Locale } from "./i18n";
+import { profileName, type Profile } from "./profiles";
+import { useHistory } from "./useHistory";
+import ImportDialog from "./ImportDialog";
+import { parseTable, type SkippedRow } from "./spreadsheet";
+import {
+  buildSharedChampions,
+  clearShareFragment,
+  decodeShare,
+  encodeShare,
+  readShareFragment,
+  shareUrl,
+} from "./share";
+import SharedCollectionView from "./SharedCollectionView";
+import SpendingSummary from "./SpendingSummary";
+import AcquisitionEditor from "./AcquisitionEditor";
+import SkinLinesView from "./SkinLinesView";
+import {
+  collectionValue,
+  compareTiers,
+  groupTier,
+  matchesTierFilter,
+  PRICES_UPDATED,
+  SKIN_TIERS,
+  tierValue,
+  type TierFilter,
+} from "./pricing";
+import { buildSkinLines } from "./skinLines";
+import {
+  championMatches,
+  findMatch,
+  groupMatches,
+  hasSkinTerms,
+  highlightRanges,
+  parseQuery,
+  textTerms,
+  type SearchQuery,
+} from "./searchQuery";
+import Highlight from "./Highlight";
+import {
+  applyInventory,
+  fetchLcuInventory,
+  LcuError,
+  missingChampionKeys,
+} from "./lcu";
+import {
+  loadWatchPreference,
+  saveWatchPreference,
+  useLiveSkinWatcher,
+  type LiveSkin,
+} from "./useLiveSkinWatcher";
+import type { LiveGameState } from "./useLiveGame";
+import type { SeenSkin } from "./seenGames";
+import SeenSkinsView from "./SeenSkinsView";
+import { skinPlays, type PlayedGame, type SkinPlays } from "./playedGames";
+
+type PendingImport = {
+  fileName: string;
+  champions: Champion[];
+  preview: { diff: ImportDiff; skipped: SkippedRow[]; note?: string } | { error: string };
 };
 
-type Champion = {
-  id: string;
-  name: string;
-  skins: Skin[];
+type CatalogError =
+  | { kind: "version" }
+  | { kind: "index"; version: string }
+  | { kind: "skins"; champion: string };
+
+type LolSkinsTrackerProps = {
+  profile: Profile;
+  /** Called with the collection shown, on load and after every change. */
+  onChampionsChange: (champions: Champion[]) => void;
+  /** The game followed by the app, and the games it recorded. */
+  live: LiveGameState;
 };
 
-type DDragonChampionIndex = {
-  data: Record<string, { id: string; name: string }>;
-};
+export default function LolSkinsTracker({
+  profile,
+  onChampionsChange,
+  live,
+}: LolSkinsTrackerProps) {
+  const { locale, t } = useI18n();
+  const profileLabel = profileName(profile, t.profiles.defaultName);
+  const [stored] = useState(() => loadChampions(profile.id));
+  const {
+    state: champions,
+    commit: commitStep,
+    patch,
+    undo: undoStep,
+    redo: redoStep,
+    undoLabel,
+    redoLabel,
+  } = useHistory<Champion[]>(
+    () => stored.champions,
+    historyKey(profile.id),
+  );
+  const [toast, setToast] = useState<string | null>(null);
+
+  // The toast's undo reverts the newest step, so any later step (or undo,
+  // redo) dismisses it; edits that announce themselves set it again after.
+  const commit = useCallback(
+    (updater: (previous: Champion[]) => Champion[], label: string) => {
+      commitStep(updater, label);
+      setToast(null);
+    },
+    [commitStep],
+  );
+  const undo = useCallback(() => {
+    undoStep();
+    setToast(null);
+  }, [undoStep]);
+  const redo = useCallback(() => {
+    redoStep();
+    setToast(null);
+  }, [redoStep]);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [readingClient, setReadingClient] = useState(false);
+  const [storageIssue, setStorageIssue] = useState<StorageIssue | null>(stored.issue);
+  const [query, setQuery] = useState("");
+  const [showMode, setShowMode] = useState<"all" | "with" | "without" | "wishlist">("all");
+  const [tierFilter, setTierFilter] = useState<TierFilter>("all");
+  const [skinSort, setSkinSort] = useState<"catalog" | "tier">("catalog");
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [ddVersion, setDdVersion] = useState<string | null>(null);
+  const [ddIndex, setDdIndex] = useState<{
+    locale: Locale;
+    index: DDragonChampionIndex;
+  } | null>(null);
+  const [ddError, setDdError] = useState<CatalogError | null>(null);
+  const [prefilling, setPrefilling] = useState(false);
+  const [showSpending, setShowSpending] = useState(false);
+  const [watchLive, setWatchLive] = useState(loadWatchPreference);
+  const [view, setView] = useState<"champions" | "lines" | "seen">("champions");
+  const [sharePayload, setSharePayload] = useState(readShareFragment);
+  const [shared, setShared] = useState<{
+    payload: string;
+    name: string;
+    champions: Champion[] | null;
+    error: string | null;
+  } | null>(null);
+
+  // Stored data that couldn't be backed up isn't overwritten until the issue
+  // is dismissed, so it can still be downloaded.
+  const keepStored =
+    storageIssue !== null && "backedUp" in storageIssue && !storageIssue.backedUp;
 
-type DDragonChampionDetail = {
-  data: Record<
-    string,
-    {
-      id: string;
-      name: string;
-      skins: { id: string; num: number; name: string; chromas: boolean }[];
+  useEffect(() => {
+    if (keepStored) {
+      return;
     }
-  >;
-};
-
-const STORAGE_KEY = "lol-skins-tracker:champions";
-const DDRAGON_LOCALE = "fr_FR";
-
-const CHAMPION_NAMES = [
-  "Aatrox",
-  "Ahri",
-  "Akali",
-  "Akshan",
-  "Alistar",
-  "Ambessa",
-  "Amumu",
-  "Anivia",
-  "Annie",
-  "Aphelios",
-  "Ashe",
-  "Aurelion Sol",
-  "Aurora",
-  "Azir",
-  "Bard",
-  "Bel'Veth",
-  "Blitzcrank",
-  "Brand",
-  "Braum",
-  "Briar",
-  "Caitlyn",
-  "Camille",
-  "Cassiopeia",
-  "Cho'Gath",
-  "Corki",
-  "Darius",
-  "Diana",
-  "Dr. Mundo",
-  "Draven",
-  "Ekko",
-  "Elise",
-  "Evelynn",
-  "Ezreal",
-  "Fiddlesticks",
-  "Fiora",
-  "Fizz",
-  "Galio",
-  "Gangplank",
-  "Garen",
-  "Gnar",
-  "Gragas",
-  "Graves",
-  "Gwen",
-  "Hecarim",
-  "Heimerdinger",
-  "Hwei",
-  "Illaoi",
-  "Irelia",
-  "Ivern",
-  "Janna",
-  "Jarvan IV",
-  "Jax",
-  "Jayce",
-  "Jhin",
-  "Jinx",
-  "Kai'Sa",
-  "Kalista",
-  "Karma",
-  "Karthus",
-  "Kassadin",
-  "Katarina",
-  "Kayle",
-  "Kayn",
-  "Kennen",
-  "Kha'Zix",
-  "Kindred",
-  "Kled",
-  "Kog'Maw",
-  "K'Sante",
-  "LeBlanc",
-  "Lee Sin",
-  "Leona",
-  "Lillia",
-  "Lissandra",
-  "Lucian",
-  "Lulu",
-  "Lux",
-  "Malphite",
-  "Malzahar",
-  "Maokai",
-  "Master Yi",
-  "Mel",
-  "Milio",
-  "Miss Fortune",
-  "Mordekaiser",
-  "Morgana",
-  "Naafiri",
-  "Nami",
-  "Nasus",
-  "Nautilus",
-  "Neeko",
-  "Nidalee",
-  "Nilah",
-  "Nocturne",
-  "Nunu",
-  "Olaf",
-  "Orianna",
-  "Ornn",
-  "Pantheon",
-  "Poppy",
-  "Pyke",
-  "Qiyana",
-  "Quinn",
-  "Rakan",
-  "Rammus",
-  "Rek'Sai",
-  "Rell",
-  "Renata Glasc",
-  "Renekton",
-  "Rengar",
-  "Riven",
-  "Rumble",
-  "Ryze",
-  "Samira",
-  "Sejuani",
-  "Senna",
-  "Seraphine",
-  "Sett",
-  "Shaco",
-  "Shen",
-  "Shyvana",
-  "Singed",
-  "Sion",
-  "Sivir",
-  "Skarner",
-  "Smolder",
-  "Sona",
-  "Soraka",
-  "Swain",
-  "Sylas",
-  "Syndra",
-  "Tahm Kench",
-  "Taliyah",
-  "Talon",
-  "Taric",
-  "Teemo",
-  "Thresh",
-  "Tristana",
-  "Trundle",
-  "Tryndamere",
-  "Twisted Fate",
-  "Twitch",
-  "Udyr",
-  "Urgot",
-  "Varus",
-  "Vayne",
-  "Veigar",
-  "Vel'Koz",
-  "Vex",
-  "Vi",
-  "Viego",
-  "Viktor",
-  "Vladimir",
-  "Volibear",
-  "Warwick",
-  "Wukong",
-  "Xayah",
-  "Xerath",
-  "Xin Zhao",
-  "Yasuo",
-  "Yone",
-  "Yorick",
-  "Yunara",
-  "Yuumi",
-  "Zac",
-  "Zed",
-  "Zeri",
-  "Ziggs",
-  "Zilean",
-  "Zoe",
-  "Zyra",
-] as const;
-
-const uid = (): string =>
-  typeof crypto !== "undefined" && "randomUUID" in crypto
-    ? crypto.randomUUID()
-    : `id_${Math.random().toString(36).slice(2)}_${Date.now()}`;
-
-const normalize = (value: string): string =>
-  value
-    .toLowerCase()
-    .normalize("NFD")
-    .replace(/\p{Diacritic}/gu, "")
-    .replace(/["'`\.\-\s]/g, "");
-
-const championId = (name: string): string => `champ_${normalize(name)}`;
-
-const isChromaName = (value: string): boolean =>
-  normalize(value).includes("chroma");
-
-const baseSkinName = (name: string): string => name.replace(/\s*\([^)]*\)\s*$/, "").trim();
-
-function groupSkins(skins: Skin[]) {
-  const map = new Map<string, Skin[]>();
-  for (const s of skins) {
-    const base = normalize(baseSkinName(s.name));
-    const arr = map.get(base);
-    if (arr) arr.push(s);
-    else map.set(base, [s]);
-  }
-
-  const groups: { base: string; display: string; variants: Skin[] }[] = [];
-  for (const [base, variants] of map.entries()) {
-    // choose display name: prefer variant without parentheses
-    const displayVariant = variants.find((v) => !/\([^)]*\)/.test(v.name)) || variants[0];
-    groups.push({ base, display: baseSkinName(displayVariant.name), variants });
-  }
-  return groups;
-}
 
-async function fetchDdragonLatestVersion(): Promise<string | null> {
-  try {
-    const response = await fetch(
-      "https://ddragon.leagueoflegends.com/api/versions.json",
-    );
-    if (!response.ok) {
-      return null;
+    if (!saveChampions(profile.id, champions)) {
+      setStorageIssue({ kind: "save" });
     }
+  }, [profile.id, champions, keepStored]);
 
-    const versions = (await response.json()) as string[];
-    return Array.isArray(versions) && versions.length > 0 ? versions[0] : null;
-  } catch {
-    return null;
-  }
-}
-
-async function fetchChampionIndex(
-  version: string,
-  locale: string,
-): Promise<DDragonChampionIndex | null> {
-  try {
-    const response = await fetch(
-      `https://ddragon.leagueoflegends.com/cdn/${version}/data/${locale}/champion.json`,
-    );
-    if (!response.ok) {
-      return null;
-    }
+  useEffect(() => {
+    onChampionsChange(champions);
+  }, [champions, onChampionsChange]);
 
-    return (await response.json()) as DDragonChampionIndex;
-  } catch {
-    return null;
-  }
-}
+  useEffect(() => {
+    let cancelled = false;
 
-function buildKeyMap(index: DDragonChampionIndex): Map<string, string> {
-  const map = new Map<string, string>();
+    void (async () => {
+      const version = await fetchDdragonLatestVersion(DDRAGON_SOURCE);
+      if (cancelled) {
+        return;
+      }
 
-  for (const [key, value] of Object.entries(index.data)) {
-    map.set(normalize(value.name), key);
-    map.set(normalize(value.id), key);
-  }
+      if (!version) {
+        setDdError({ kind: "version" });
+        return;
+      }
 
-  return map;
-}
+      setDdVersion(version);
 
-async function fetchChampionSkins(
-  version: string,
-  locale: string,
-  key: string,
-): Promise<string[]> {
-  try {
-    const response = await fetch(
-      `https://ddragon.leagueoflegends.com/cdn/${version}/data/${locale}/champion/${key}.json`,
-    );
-    if (!response.ok) {
-      return [];
-    }
+      const index = await fetchChampionIndex(DDRAGON_SOURCE, version, locale);
+      if (cancelled) {
+        return;
+      }
 
-    const data = (await response.json()) as DDragonChampionDetail;
-    const champion = data.data[key];
-    if (!champion) {
-      return [];
-    }
+      if (index) {
+        setDdIndex({ locale, index });
+        setDdError(null);
+        patch((previous) =>
+          reconcileRoster(previous, rosterFromIndex(index), true),
+        );
+      } else {
+        setDdError({ kind: "index", version });
+      }
+    })();
 
-    return champion.skins
-      .filter(
-        (skin) => skin.num > 0 && !skin.chromas && !isChromaName(skin.name),
-      )
-      .map((skin) => skin.name.trim())
-      .reduce((acc: string[], name) => {
-        const base = baseSkinName(name);
-        const existingIndex = acc.findIndex((n) => baseSkinName(n) === base);
-        if (existingIndex === -1) acc.push(name);
-        else {
-          // prefer the non-parenthesized variant if available
-          if (!/\([^)]*\)/.test(acc[existingIndex]) && /\([^)]*\)/.test(name)) {
-            // keep existing (already non-parenthesized)
-          } else if (/\([^)]*\)/.test(acc[existingIndex]) && !/\([^)]*\)/.test(name)) {
-            acc[existingIndex] = name;
-          }
-        }
-        return acc;
-      }, [] as string[]);
-  } catch {
-    return [];
-  }
-}
+    return () => {
+      cancelled = true;
+    };
+  }, [locale, patch]);
 
-function createDefaultChampions(): Champion[] {
-  return CHAMPION_NAMES.map((name) => ({
-    id: championId(name),
-    name,
-    skins: [],
-  }));
-}
+  // The index of the previous locale stays out of use until the new one loads.
+  const ddKeyMap = useMemo(
+    () => (ddIndex && ddIndex.locale === locale ? buildKeyMap(ddIndex.index) : null),
+    [ddIndex, locale],
+  );
 
-function sanitizeChampions(input: unknown): Champion[] {
-  if (!Array.isArray(input)) {
-    return createDefaultChampions();
-  }
-
-  const byName = new Map<string, Champion>();
-
-  for (const item of input) {
-    if (!item || typeof item !== "object") continue;
-
-    const candidate = item as Partial<Champion>;
-    if (typeof candidate.name !== "string") continue;
-
-    const skins = Array.isArray(candidate.skins)
-      ? candidate.skins
-          .filter((skin) => skin && typeof skin === "object")
-          .map((skin) => {
-            const typedSkin = skin as Partial<Skin>;
-            return {
-              id:
-                typeof typedSkin.id === "string" && typedSkin.id.trim()
-                  ? typedSkin.id
-                  : uid(),
-              name: typeof typedSkin.name === "string" ? typedSkin.name : "",
-              checked: Boolean(typedSkin.checked),
-            };
-          })
-          .filter(
-            (skin) => skin.name.trim().length > 0 && !isChromaName(skin.name),
-          )
-      : [];
-
-    // dedupe skins by base name (remove chroma variants)
-    const dedupedSkins: Skin[] = [];
-    const seenBases = new Set<string>();
-    for (const s of skins) {
-      const base = normalize(baseSkinName(s.name));
-      if (seenBases.has(base)) continue;
-      seenBases.add(base);
-      dedupedSkins.push(s);
+  // Champions keep their stored name as identity; the label follows the locale.
+  const championLabels = useMemo(() => {
+    const labels = new Map<string, string>();
+    if (ddIndex && ddKeyMap) {
+      for (const [name, key] of ddKeyMap) {
+        labels.set(name, ddIndex.index.data[key].name);
+      }
     }
+    return labels;
+  }, [ddIndex, ddKeyMap]);
 
-    byName.set(candidate.name, {
-      id:
-        typeof candidate.id === "string" && candidate.id.trim()
-          ? candidate.id
-          : championId(candidate.name),
-      name: candidate.name,
-      skins: dedupedSkins,
-    });
-  }
+  const championLabel = (champion: Champion): string =>
+    championLabels.get(normalize(champion.name)) ?? champion.name;
 
-  const merged = CHAMPION_NAMES.map((name) => {
-    const existing = byName.get(name);
-    return existing ?? { id: championId(name), name, skins: [] };
-  });
+  // Skins saved before Data Dragon ids existed, or synced in another locale,
+  // are brought in line with the catalog once it is available; each champion
+  // is only looked up once per locale and session.
+  const syncedRef = useRef<Set<string>>(new Set());
 
-  for (const champion of byName.values()) {
-    if (
-      !CHAMPION_NAMES.includes(champion.name as (typeof CHAMPION_NAMES)[number])
-    ) {
-      merged.push(champion);
+  useEffect(() => {
+    if (!ddVersion || !ddKeyMap) {
+      return;
     }
-  }
-
-  return merged;
-}
-
-function loadChampions(): Champion[] {
-  if (typeof window === "undefined") {
-    return createDefaultChampions();
-  }
 
-  try {
-    const raw = window.localStorage.getItem(STORAGE_KEY);
-    if (!raw) {
-      return createDefaultChampions();
+    const pending = champions.filter(
+      (champion) =>
+        needsCatalogSync(champion, locale) &&
+        !syncedRef.current.has(`${locale}:${champion.id}`),
+    );
+    for (const champion of pending) {
+      syncedRef.current.add(`${locale}:${champion.id}`);
     }
 
-    return sanitizeChampions(JSON.parse(raw));
-  } catch {
-    return createDefaultChampions();
-  }
-}
-
-function saveChampions(champions: Champion[]): void {
-  if (typeof window === "undefined") {
-    return;
-  }
-
-  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(champions));
-}
-
-function exportChampions(champions: Champion[]): void {
-  const blob = new Blob([JSON.stringify(champions, null, 2)], {
-    type: "application/json",
-  });
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement("a");
+    void (async () => {
+      for (const champion of pending) {
+        const key = ddKeyMap.get(normalize(champion.name));
+        if (!key) continue;
+
+        const fetched = await fetchChampionSkins(
+          DDRAGON_SOURCE,
+          ddVersion,
+          locale,
+          key,
+        );
+        if (fetched.length === 0) continue;
+
+        patch((previous) =>
+          previous.map((current) =>
+            current.id === champion.id
+              ? syncCatalogSkins(current, fetched, locale)
+              : current,
+          ),
+        );
+      }
+    })();
+  }, [champions, ddVersion, ddKeyMap, locale, patch]);
 
-  link.href = url;
-  link.download = "lol-skins-tracker.json";
-  link.click();
+  useEffect(() => {
+    const onHashChange = () => setSharePayload(readShareFragment());
 
-  URL.revokeObjectURL(url);
-}
+    window.addEventListener("hashchange", onHashChange);
+    return () => window.removeEventListener("hashchange", onHashChange);
+  }, []);
 
-function mergeImportedChampions(
-  current: Champion[],
-  imported: Champion[],
-): Champion[] {
-  const importedByName = new Map(
-    imported.map((champion) => [champion.name, champion] as const),
-  );
+  // A shared link waits for the catalog version (or its failure) so skins can
+  // be named from the catalog rather than only from the local collection.
+  const catalogSettled = ddVersion !== null || ddError?.kind === "version";
 
-  return current.map((champion) => {
-    const incoming = importedByName.get(champion.name);
-    if (!incoming) {
-      return champion;
+  useEffect(() => {
+    if (!sharePayload || !catalogSettled) {
+      return;
     }
 
-    return {
-      id: champion.id,
-      name: champion.name,
-      skins: Array.isArray(incoming.skins)
-        ? (() => {
-            const tmp: Skin[] = incoming.skins
-              .filter(
-                (skin) => skin && typeof skin.name === "string" && skin.name.trim().length > 0,
-              )
-              .map((skin) => ({
-                id: typeof skin.id === "string" && skin.id.trim() ? skin.id : uid(),
-                name: skin.name,
-                checked: Boolean(skin.checked),
-              }));
-
-            const dedup: Skin[] = [];
-            const seen = new Set<string>();
-            for (const s of tmp) {
-              const base = normalize(baseSkinName(s.name));
-              if (seen.has(base)) continue;
-              seen.add(base);
-              dedup.push(s);
-            }
-            return dedup;
-          })()
-        : champion.skins,
-    };
-  });
-}
+    let cancelled = false;
 
-export default function LolSkinsTracker() {
-  const [champions, setChampions] = useState<Champion[]>(loadChampions);
-  const [query, setQuery] = useState("");
-  const [showMode, setShowMode] = useState<"all" | "with" | "without">("all");
-  const [expanded, setExpanded] = useState<Set<string>>(new Set());
-  const [ddVersion, setDdVersion] = useState<string | null>(null);
-  const [ddKeyMap, setDdKeyMap] = useState<Map<string, string> | null>(null);
-  const [prefilling, setPrefilling] = useState(false);
+    void (async () => {
+      try {
+        const decoded = await decodeShare(sharePayload);
+        if (cancelled) return;
+        setShared({ payload: sharePayload, name: decoded.name, champions: null, error: null });
+
+        const sharedChampions = await buildSharedChampions(
+          decoded,
+          stored.champions,
+          (key) =>
+            ddVersion
+              ? fetchChampionSkins(DDRAGON_SOURCE, ddVersion, locale, key)
+              : Promise.resolve([]),
+        );
+        if (cancelled) return;
+        setShared({
+          payload: sharePayload,
+          name: decoded.name,
+          champions: sharedChampions,
+          error: null,
+        });
+      } catch (error) {
+        if (cancelled) return;
+        setShared({
+          payload: sharePayload,
+          name: "",
+          champions: [],
+          error:
+            error instanceof StorageError
+              ? t.storage.errors[error.code]
+              : t.tracker.unknownError,
+        });
+      }
+    })();
 
-  useEffect(() => {
-    saveChampions(champions);
-  }, [champions]);
+    return () => {
+      cancelled = true;
+    };
+  }, [sharePayload, catalogSettled, ddVersion, locale, stored.champions, t]);
 
   useEffect(() => {
-    let cancelled = false;
-
-    void (async () => {
-      const version = await fetchDdragonLatestVersion();
-      if (!version || cancelled) {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) {
         return;
       }
 
-      setDdVersion(version);
-
-      const index = await fetchChampionIndex(version, DDRAGON_LOCALE);
-      if (index && !cancelled) {
-        setDdKeyMap(buildKeyMap(index));
+      // text fields keep their own undo
+      const target = event.target as HTMLElement | null;
+      if (target?.closest(
+          "input:not([type=checkbox]):not([type=radio]), textarea, [contenteditable=true]",
+        )) {
+        return;
       }
-    })();
 
-    return () => {
-      cancelled = true;
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        redo();
+      }
     };
-  }, []);
 
-  const normalizedQuery = useMemo(() => normalize(query), [query]);
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [undo, redo]);
+
+  useEffect(() => {
+    if (!toast) {
+      return;
+    }
+
+    const timer = window.setTimeout(() => setToast(null), 8000);
+    return () => window.clearTimeout(timer);
+  }, [toast]);
 
-  const hasCheckedSkin = (champion: Champion): boolean =>
-    champion.skins.some((skin) => skin.checked);
+  const searchQuery = useMemo(() => parseQuery(query), [query]);
+
+  const hasOwnedSkin = (champion: Champion): boolean =>
+    champion.skins.some((skin) => skin.status === "owned");
+
+  const hasWishlistSkin = (champion: Champion): boolean =>
+    champion.skins.some((skin) => skin.status === "wishlist");
 
   const filteredChampions = useMemo(
     () =>
       champions.filter((champion) => {
         if (
-          normalizedQuery &&
-          !normalize(champion.name).includes(normalizedQuery)
+          !championMatches(
+            searchQuery,
+            champion,
+            championLabels.get(normalize(champion.name)) ?? champion.name,
+          )
         ) {
           return false;
         }
 
-        if (showMode === "with" && !hasCheckedSkin(champion)) {
+        if (showMode === "with" && !hasOwnedSkin(champion)) {
+          return false;
+        }
+
+        if (showMode === "without" && hasOwnedSkin(champion)) {
+          return false;
+        }
+
+        if (showMode === "wishlist" && !hasWishlistSkin(champion)) {
           return false;
         }
 
-        if (showMode === "without" && hasCheckedSkin(champion)) {
+        if (
+          tierFilter !== "all" &&
+          !groupSkins(champion.skins).some((g) =>
+            matchesTierFilter(groupTier(g.variants), tierFilter),
+          )
+        ) {
           return false;
         }
 
         return true;
       }),
-    [champions, normalizedQuery, showMode],
+    [champions, championLabels, searchQuery, showMode, tierFilter],
   );
 
+  // Completion counts skin groups and leaves out the ones marked ignored.
   const totals = useMemo(() => {
-    const championsWithCheckedSkin = champions.filter(hasCheckedSkin).length;
-    const totalSkins = champions.reduce((sum, champion) => {
-      const bases = new Set(champion.skins.map((s) => normalize(baseSkinName(s.name))));
-      return sum + bases.size;
-    }, 0);
+    const championsWithCheckedSkin = champions.filter(hasOwnedSkin).length;
+    const groups = champions.flatMap((champion) => groupSkins(champion.skins));
+    const counted = groups.filter((g) => g.variants.some((v) => v.status !== "ignored"));
 
-    const checkedSkins = champions.reduce((sum, champion) => {
-      const groups = groupSkins(champion.skins);
-      return sum + groups.filter((g) => g.variants.some((v) => v.checked)).length;
-    }, 0);
+    const allChromas = champions.flatMap((champion) =>
+      champion.skins.flatMap((skin) => skin.chromas),
+    );
 
     return {
       championsWithCheckedSkin,
       totalChampions: champions.length,
-      checkedSkins,
-      totalSkins,
+      checkedSkins: counted.filter((g) => g.variants.some((v) => v.status === "owned")).length,
+      totalSkins: counted.length,
+      wishlistSkins: groups.filter(
+        (g) =>
+          g.variants.some((v) => v.status === "wishlist") &&
+          !g.variants.some((v) => v.status === "owned"),
+      ).length,
+      checkedChromas: allChromas.filter((chroma) => chroma.checked).length,
+      totalChromas: allChromas.length,
+      value: collectionValue(champions.flatMap((champion) => champion.skins)),
     };
   }, [champions]);
 
+  const skinLines = useMemo(() => {
+    if (view !== "lines") {
+      return [];
+    }
+
+    return buildSkinLines(
+      champions,
+      locale,
+      (champion) => championLabels.get(normalize(champion.name)) ?? champion.name,
+    ).filter((line) => textTerms(searchQuery).every((term) => findMatch(line.name, term)));
+  }, [view, champions, locale, championLabels, searchQuery]);
+
+  const championById = (id: string): Champion | undefined =>
+    champions.find((champion) => champion.id === id);
+
   const updateChampion = (
     id: string,
     updater: (champion: Champion) => Champion,
+    label: string,
   ) => {
-    setChampions((previous) =>
-      previous.map((champion) =>
-        champion.id === id ? updater(champion) : champion,
-      ),
+    commit(
+      (previous) =>
+        previous.map((champion) =>
+          champion.id === id ? updater(champion) : champion,
+        ),
+      label,
+    );
+  };
+
+  const toggleAllSkins = (champion: Champion, checked: boolean) => {
+    updateChampion(
+      champion.id,
+      (current) => ({
+        ...current,
+        skins: current.skins.map((skin) =>
+          checked && skin.status !== "ignored"
+            ? { ...skin, status: "owned" }
+            : !checked && skin.status === "owned"
+              ? { ...skin, status: "unknown" }
+              : skin,
+        ),
+      }),
+      t.history.toggleAll(championLabel(champion)),
     );
   };
 
-  const toggleAllSkins = (championId: string, checked: boolean) => {
-    updateChampion(championId, (champion) => ({
-      ...champion,
-      skins: champion.skins.map((skin) => ({ ...skin, checked })),
-    }));
+  const setSkinsStatus = (
+    champion: Champion,
+    skinIds: string[],
+    status: SkinStatus,
+  ) => {
+    const names = champion.skins
+      .filter((skin) => skinIds.includes(skin.id))
+      .map((skin) => skin.name);
+
+    updateChampion(
+      champion.id,
+      (current) => ({
+        ...current,
+        skins: current.skins.map((skin) =>
+          skinIds.includes(skin.id) ? { ...skin, status } : skin,
+        ),
+      }),
+      t.history.setStatus(names.join(", "), t.status[status]),
+    );
   };
 
-  const toggleSkin = (championId: string, skinId: string, checked: boolean) => {
-    updateChampion(championId, (champion) => ({
-      ...champion,
-      skins: champion.skins.map((skin) =>
-        skin.id === skinId ? { ...skin, checked } : skin,
-      ),
-    }));
+  const setAcquisition = (
+    champion: Champion,
+    skinId: string,
+    acquisition: Acquisition | undefined,
+  ) => {
+    const skinName = champion.skins.find((skin) => skin.id === skinId)?.name ?? "";
+
+    updateChampion(
+      champion.id,
+      (current) => ({
+        ...current,
+        skins: current.skins.map((skin) =>
+          skin.id === skinId ? { ...skin, acquisition } : skin,
+        ),
+      }),
+      t.history.setAcquisition(skinName),
+    );
+  };
+
+  const toggleChroma = (
+    champion: Champion,
+    skinId: string,
+    chromaId: string,
+    checked: boolean,
+  ) => {
+    const chromaName =
+      champion.skins
+        .find((skin) => skin.id === skinId)
+        ?.chromas.find((chroma) => chroma.id === chromaId)?.name ?? "";
+
+    updateChampion(
+      champion.id,
+      (current) => ({
+        ...current,
+        skins: current.skins.map((skin) =>
+          skin.id === skinId
+            ? {
+                ...skin,
+                chromas: skin.chromas.map((chroma) =>
+                  chroma.id === chromaId ? { ...chroma, checked } : chroma,
+                ),
+              }
+            : skin,
+        ),
+      }),
+      t.history.toggleSkin(chromaName),
+    );
   };
 
   const addSkin = (championId: string, name: string) => {
@@ -604,82 +595,228 @@ export default function LolSkinsTracker() {
       return;
     }
 
-    updateChampion(championId, (champion) => {
-      const base = normalize(baseSkinName(trimmedName));
-      if (champion.skins.some((s) => normalize(baseSkinName(s.name)) === base)) {
-        // already have this base skin (chroma variant counted as same skin)
-        return champion;
-      }
+    updateChampion(
+      championId,
+      (champion) => {
+        const base = normalize(baseSkinName(trimmedName));
+        if (champion.skins.some((s) => normalize(baseSkinName(s.name)) === base)) {
+          // already have this base skin (chroma variant counted as same skin)
+          return champion;
+        }
 
-      return {
-        ...champion,
-        skins: [...champion.skins, { id: uid(), name: trimmedName, checked: false }],
-      };
-    });
+        return {
+          ...champion,
+          skins: [...champion.skins, { id: uid(), name: trimmedName, status: "unknown", chromas: [] }],
+        };
+      },
+      t.history.addSkin(trimmedName),
+    );
   };
 
-  const removeSkin = (championId: string, skinId: string) => {
-    updateChampion(championId, (champion) => ({
-      ...champion,
-      skins: champion.skins.filter((skin) => skin.id !== skinId),
-    }));
+  const removeSkins = (champion: Champion, skinIds: string[]) => {
+    const names = champion.skins
+      .filter((skin) => skinIds.includes(skin.id))
+      .map((skin) => skin.name);
+    const label = t.history.removeSkin(names.join(", "));
+
+    updateChampion(
+      champion.id,
+      (current) => ({
+        ...current,
+        skins: current.skins.filter((skin) => !skinIds.includes(skin.id)),
+      }),
+      label,
+    );
+    setToast(label);
   };
 
   const clearAllChecks = () => {
-    setChampions((previous) =>
-      previous.map((champion) => ({
-        ...champion,
-        skins: champion.skins.map((skin) => ({ ...skin, checked: false })),
-      })),
+    commit(
+      (previous) =>
+        previous.map((champion) => ({
+          ...champion,
+          skins: champion.skins.map((skin) => ({
+            ...skin,
+            status: skin.status === "owned" ? "unknown" : skin.status,
+            chromas: skin.chromas.map((chroma) => ({ ...chroma, checked: false })),
+          })),
+        })),
+      t.history.clearChecks,
+    );
+    setToast(t.history.clearChecks);
+  };
+
+  const orphans = useMemo(
+    () => champions.filter((champion) => !champion.key),
+    [champions],
+  );
+
+  const mergeOrphan = (orphan: Champion, targetId: string) => {
+    const orphanId = orphan.id;
+    commit((previous) => {
+      const orphan = previous.find((champion) => champion.id === orphanId);
+      if (!orphan) {
+        return previous;
+      }
+
+      return previous
+        .filter((champion) => champion.id !== orphanId)
+        .map((champion) =>
+          champion.id === targetId ? mergeChampionInto(champion, orphan) : champion,
+        );
+    }, t.history.mergeOrphan(orphan.name));
+  };
+
+  const removeOrphan = (orphan: Champion) => {
+    const label = t.history.removeOrphan(orphan.name);
+    commit(
+      (previous) => previous.filter((champion) => champion.id !== orphan.id),
+      label,
     );
+    setToast(label);
   };
 
   const expandAll = () =>
     setExpanded(new Set(filteredChampions.map((champion) => champion.id)));
   const collapseAll = () => setExpanded(new Set());
 
-  const mergeSkins = (champion: Champion, fetchedNames: string[]): Champion => {
-    const existingByName = new Map(
-      champion.skins.map((skin) => [normalize(baseSkinName(skin.name)), skin] as const),
-    );
-    const merged: Skin[] = [];
+  const fetchCatalogFor = async (champion: Champion) => {
+    if (!ddVersion || !ddKeyMap) {
+      return null;
+    }
 
-    for (const name of fetchedNames) {
-      const existing = existingByName.get(normalize(baseSkinName(name)));
-      merged.push(existing ?? { id: uid(), name, checked: false });
+    const key = ddKeyMap.get(normalize(champion.name));
+    if (!key) {
+      return null;
     }
 
-    for (const skin of champion.skins) {
-      if (
-        !fetchedNames.some((name) => normalize(name) === normalize(skin.name))
-      ) {
-        merged.push(skin);
-      }
+    const fetchedSkins = await fetchChampionSkins(
+      DDRAGON_SOURCE,
+      ddVersion,
+      locale,
+      key,
+    );
+    if (fetchedSkins.length === 0) {
+      setDdError({ kind: "skins", champion: championLabel(champion) });
+      return null;
     }
 
-    return { ...champion, skins: merged };
+    return fetchedSkins;
   };
 
   const prefillChampion = async (champion: Champion) => {
-    if (!ddVersion || !ddKeyMap) {
+    const fetchedSkins = await fetchCatalogFor(champion);
+    if (!fetchedSkins) {
       return;
     }
 
-    const key = ddKeyMap.get(normalize(champion.name));
-    if (!key) {
-      return;
+    updateChampion(
+      champion.id,
+      (current) => mergeSkins(current, fetchedSkins, locale),
+      t.history.prefill(championLabel(champion)),
+    );
+  };
+
+  // The catalog is only fetched when the champion doesn't list the skin yet;
+  // the skin is then added and changed in a single step. `change` returns
+  // `null` when the skin needs no change. Returns the change's label.
+  const updateGameSkin = async (
+    player: { championKey: string | null; championName: string; skinNum: number },
+    change: (skin: Skin, chromaId: string | undefined) => Skin | null,
+    labelOf: (name: string) => string,
+  ): Promise<string | null> => {
+    const champion = findGameChampion(champions, player, championLabel);
+    if (!champion) {
+      return null;
     }
 
-    const fetchedNames = await fetchChampionSkins(
-      ddVersion,
-      DDRAGON_LOCALE,
-      key,
+    const fetchedSkins = findGameSkin(champion, player.skinNum)
+      ? null
+      : await fetchCatalogFor(champion);
+    const found = findGameSkin(
+      fetchedSkins ? mergeSkins(champion, fetchedSkins, locale) : champion,
+      player.skinNum,
     );
-    if (fetchedNames.length === 0) {
+    if (!found || !change(found.skin, found.chromaId)) {
+      return null;
+    }
+
+    const chroma = found.chromaId
+      ? found.skin.chromas.find((c) => c.id === found.chromaId)
+      : undefined;
+    const label = labelOf(chroma?.name ?? found.skin.name);
+    updateChampion(
+      champion.id,
+      (current) => {
+        const merged = fetchedSkins ? mergeSkins(current, fetchedSkins, locale) : current;
+        const match = findGameSkin(merged, player.skinNum);
+        if (!match) {
+          return merged;
+        }
+
+        return {
+          ...merged,
+          skins: merged.skins.map((skin) =>
+            skin.id === match.skin.id ? (change(skin, match.chromaId) ?? skin) : skin,
+          ),
+        };
+      },
+      label,
+    );
+    setToast(label);
+    return label;
+  };
+
+  const markLiveSkin = async (live: LiveSkin) => {
+    if (live.skinNum === 0) {
       return;
     }
 
-    updateChampion(champion.id, (current) => mergeSkins(current, fetchedNames));
+    const label = await updateGameSkin(
+      live,
+      (skin, chromaId) => {
+        const chroma = chromaId ? skin.chromas.find((c) => c.id === chromaId) : undefined;
+        if (skin.status === "owned" && (!chroma || chroma.checked)) {
+          return null;
+        }
+
+        return {
+          ...skin,
+          status: "owned",
+          chromas: skin.chromas.map((c) => (c.id === chromaId ? { ...c, checked: true } : c)),
+        };
+      },
+      t.history.liveOwned,
+    );
+
+    // the game usually has focus; the toast alone would go unseen
+    if (
+      label &&
+      document.hidden &&
+      "Notification" in window &&
+      Notification.permission === "granted"
+    ) {
+      new Notification(t.live.notificationTitle, { body: label });
+    }
+  };
+
+  // Chromas can't be wishlisted; a seen chroma wishlists its skin.
+  const wishlistSeenSkin = (seen: SeenSkin) =>
+    void updateGameSkin(
+      seen,
+      (skin) => (skin.status === "unknown" ? { ...skin, status: "wishlist" } : null),
+      t.history.seenWishlist,
+    );
+
+  const watcherState = useLiveSkinWatcher(watchLive, live.game, (skin) => void markLiveSkin(skin));
+
+  const toggleWatchLive = () => {
+    const next = !watchLive;
+    setWatchLive(next);
+    saveWatchPreference(next);
+    if (next && "Notification" in window && Notification.permission === "default") {
+      void Notification.requestPermission();
+    }
   };
 
   const prefillVisible = async () => {
@@ -689,8 +826,24 @@ export default function LolSkinsTracker() {
 
     setPrefilling(true);
     try {
+      // fetched first and applied as one step, so a single undo reverts it
+      const fetched = new Map<string, CatalogSkin[]>();
       for (const champion of filteredChampions) {
-        await prefillChampion(champion);
+        const fetchedSkins = await fetchCatalogFor(champion);
+        if (fetchedSkins) {
+          fetched.set(champion.id, fetchedSkins);
+        }
+      }
+
+      if (fetched.size > 0) {
+        commit(
+          (previous) =>
+            previous.map((champion) => {
+              const fetchedSkins = fetched.get(champion.id);
+              return fetchedSkins ? mergeSkins(champion, fetchedSkins, locale) : champion;
+            }),
+          t.history.prefillVisible(fetched.size),
+        );
       }
     } finally {
       setPrefilling(false);
@@ -698,45 +851,264 @@ export default function LolSkinsTracker() {
   };
 
   const handleExport = () => {
-    exportChampions(champions);
+    exportChampions(champions, profileLabel);
+  };
+
+  const handleShare = async () => {
+    const { payload, skipped } = await encodeShare(champions, profileLabel);
+    const url = shareUrl(payload);
+
+    const note = skipped > 0 ? `\n${t.share.skipped(skipped)}` : "";
+
+    try {
+      await navigator.clipboard.writeText(url);
+      window.alert(`${t.share.copied}${note}`);
+    } catch {
+      window.prompt(`${t.share.copyPrompt}${note}`, url);
+    }
+  };
+
+  const closeShared = () => {
+    clearShareFragment();
+    setSharePayload(null);
+    setShared(null);
+  };
+
+  const importShared = () => {
+    if (!shared?.champions) {
+      return;
+    }
+
+    setPendingImport({
+      fileName: t.share.heading(shared.name),
+      champions: shared.champions,
+      preview: { diff: diffImport(champions, shared.champions), skipped: [] },
+    });
+  };
+
+  // A sheet's skins are matched against the collection, so the champions
+  // whose skins aren't listed yet (a fresh profile) get their catalog first,
+  // like the client import.
+  const readTable = async (text: string) => {
+    const parsed = parseTable(text, champions);
+    const missing = new Set(parsed.skipped.map((row) => row.championId));
+
+    let working = champions;
+    for (const champion of champions.filter((candidate) => missing.has(candidate.id))) {
+      const fetchedSkins = await fetchCatalogFor(champion);
+      if (fetchedSkins) {
+        working = working.map((current) =>
+          current.id === champion.id ? mergeSkins(current, fetchedSkins, locale) : current,
+        );
+      }
+    }
+
+    return working === champions ? parsed : parseTable(text, working);
   };
 
   const handleImport = async (file: File) => {
-    const text = await file.text();
-    const parsed = JSON.parse(text) as unknown;
-    if (!Array.isArray(parsed)) {
-      throw new Error("le fichier doit contenir un tableau de champions");
+    try {
+      const text = await file.text();
+      const { champions: importedChampions, skipped } = /\.(csv|tsv|txt)$/i.test(file.name)
+        ? await readTable(text)
+        : { ...parseImportedCollection(text), skipped: [] };
+      setPendingImport({
+        fileName: file.name,
+        champions: importedChampions,
+        preview: { diff: diffImport(champions, importedChampions), skipped },
+      });
+    } catch (error) {
+      setPendingImport({
+        fileName: file.name,
+        champions: [],
+        preview: {
+          error:
+            error instanceof StorageError
+              ? t.storage.errors[error.code]
+              : error instanceof Error
+                ? error.message
+                : t.tracker.unknownError,
+        },
+      });
     }
+  };
+
+  // Reviewed like a file import: the inventory becomes a copy of the
+  // collection with owned states from the client.
+  const importFromClient = async () => {
+    setReadingClient(true);
+    let source = t.lcu.source;
+
+    try {
+      const inventory = await fetchLcuInventory();
+      const { gameName, tagLine, displayName } = inventory.summoner;
+      const summoner = gameName && tagLine ? `${gameName}#${tagLine}` : displayName;
+      if (summoner) {
+        source = t.lcu.sourceOf(summoner);
+      }
+
+      // champions whose owned skins aren't listed yet get their catalog first
+      let working = champions;
+      const ddKeys = new Map(
+        Object.values(ddIndex?.index.data ?? {}).map((entry) => [entry.key, entry.id] as const),
+      );
+      for (const championKey of missingChampionKeys(champions, inventory)) {
+        const ddId = ddKeys.get(String(championKey));
+        const champion = working.find((candidate) => candidate.key === ddId);
+        const fetchedSkins = champion ? await fetchCatalogFor(champion) : null;
+        if (champion && fetchedSkins) {
+          working = working.map((current) =>
+            current.id === champion.id ? mergeSkins(current, fetchedSkins, locale) : current,
+          );
+        }
+      }
+
+      const { champions: imported, unmatched } = applyInventory(working, inventory);
+      setPendingImport({
+        fileName: source,
+        champions: imported,
+        preview: {
+          diff: diffImport(champions, imported),
+          skipped: [],
+          note: unmatched > 0 ? t.lcu.unmatched(unmatched) : undefined,
+        },
+      });
+    } catch (error) {
+      setPendingImport({
+        fileName: source,
+        champions: [],
+        preview: {
+          error:
+            error instanceof LcuError
+              ? t.lcu.errors[error.code]
+              : error instanceof Error
+                ? error.message
+                : t.tracker.unknownError,
+        },
+      });
+    } finally {
+      setReadingClient(false);
+    }
+  };
 
-    const importedChampions = sanitizeChampions(parsed);
-    setChampions((previous) =>
-      mergeImportedChampions(previous, importedChampions),
+  const applyImport = (strategyOf: (championId: string) => ImportStrategy) => {
+    if (!pendingImport) {
+      return;
+    }
+
+    const { fileName, champions: importedChampions } = pendingImport;
+    commit(
+      (previous) => mergeImportedChampions(previous, importedChampions, strategyOf),
+      t.history.import(fileName),
     );
+    setToast(t.history.import(fileName));
+    setPendingImport(null);
   };
 
+  const storageIssueText = !storageIssue
+    ? null
+    : storageIssue.kind === "save"
+      ? t.storage.saveFailed
+      : [
+          storageIssue.kind === "migrated"
+            ? t.storage.migrated(storageIssue.from)
+            : storageIssue.kind === "dropped"
+              ? t.storage.dropped(storageIssue.count)
+              : t.storage.reset(t.storage.errors[storageIssue.kind]),
+          storageIssue.backedUp ? t.storage.backedUp : t.storage.notBackedUp,
+        ].join(" ");
+
+  const numberFormat = new Intl.NumberFormat(locale.replace("_", "-"));
+
+  const ddErrorText = !ddError
+    ? null
+    : ddError.kind === "version"
+      ? t.catalog.versionError(DDRAGON_SOURCE)
+      : ddError.kind === "index"
+        ? t.catalog.indexError(ddError.version, DDRAGON_SOURCE)
+        : t.catalog.skinsError(ddError.champion, DDRAGON_SOURCE);
+
   return (
     <div className="tracker-shell">
       <div className="tracker-card">
         <header className="tracker-header">
           <div>
-            <p className="eyebrow">Suivi local</p>
-            <h1>League of Legends - Suivi des skins</h1>
+            <p className="eyebrow">
+              {t.tracker.eyebrow} · {profileLabel}
+            </p>
+            <h1>{t.tracker.title}</h1>
             <p className="subtitle">
-              {totals.championsWithCheckedSkin}/{totals.totalChampions}{" "}
-              champions avec au moins un skin coché - {totals.checkedSkins}/
-              {totals.totalSkins} skins cochés
+              {t.tracker.championsSummary(
+                totals.championsWithCheckedSkin,
+                totals.totalChampions,
+              )}{" "}
+              - {t.tracker.skinsSummary(totals.checkedSkins, totals.totalSkins)}
+              {totals.wishlistSkins > 0
+                ? ` - ${t.tracker.wishlistSummary(totals.wishlistSkins)}`
+                : null}
+              {totals.totalChromas > 0
+                ? ` - ${t.tracker.chromasSummary(totals.checkedChromas, totals.totalChromas)}`
+                : null}
+              {totals.value.rp > 0 || totals.value.unpriced > 0 ? (
+                <span title={t.tracker.valueTitle(PRICES_UPDATED)}>
+                  {" "}
+                  - {t.tracker.valueSummary(
+                    numberFormat.format(totals.value.rp),
+                    totals.value.unpriced,
+                  )}
+                </span>
+              ) : null}
             </p>
           </div>
 
           <div className="toolbar">
+            <button
+              type="button"
+              onClick={undo}
+              className="action-button"
+              disabled={!undoLabel}
+              title={undoLabel ? t.history.undoTitle(undoLabel) : undefined}
+            >
+              {t.history.undo}
+            </button>
+
+            <button
+              type="button"
+              onClick={redo}
+              className="action-button"
+              disabled={!redoLabel}
+              title={redoLabel ? t.history.redoTitle(redoLabel) : undefined}
+            >
+              {t.history.redo}
+            </button>
+
             <button
               type="button"
               onClick={prefillVisible}
               className="action-button"
               disabled={!ddVersion || !ddKeyMap || prefilling}
-              title="Préremplir les skins officiels pour les champions visibles"
+              title={t.tracker.prefillVisibleTitle}
+            >
+              {prefilling ? t.tracker.prefilling : t.tracker.prefillVisible}
+            </button>
+
+            <button
+              type="button"
+              onClick={toggleWatchLive}
+              className="action-button"
+              aria-pressed={watchLive}
+              title={t.live.states[watcherState]}
             >
-              {prefilling ? "Préremplissage…" : "Préremplir (visibles)"}
+              {watchLive ? t.live.stop : t.live.start}
+            </button>
+
+            <button
+              type="button"
+              onClick={() => setShowSpending((previous) => !previous)}
+              className="action-button"
+              aria-pressed={showSpending}
+            >
+              {t.spending.button}
             </button>
 
             <button
@@ -744,7 +1116,7 @@ export default function LolSkinsTracker() {
               onClick={clearAllChecks}
               className="action-button"
             >
-              Réinitialiser les coches
+              {t.tracker.clearChecks}
             </button>
 
             <button
@@ -752,140 +1124,409 @@ export default function LolSkinsTracker() {
               onClick={handleExport}
               className="action-button"
             >
-              Exporter JSON
+              {t.tracker.exportJson}
+            </button>
+
+            <button
+              type="button"
+              onClick={() => exportChampionsTable(champions, profileLabel, "csv")}
+              className="action-button"
+            >
+              {t.tracker.exportCsv}
+            </button>
+
+            <button
+              type="button"
+              onClick={() => exportChampionsTable(champions, profileLabel, "tsv")}
+              className="action-button"
+            >
+              {t.tracker.exportTsv}
+            </button>
+
+            <button
+              type="button"
+              onClick={() => void handleShare()}
+              className="action-button"
+              title={t.share.buttonTitle}
+            >
+              {t.share.button}
             </button>
 
             <label className="action-button file-button">
-              Importer JSON
+              {t.tracker.importJson}
               <input
                 type="file"
-                accept="application/json"
-                onChange={async (event) => {
+                accept="application/json,.json,text/csv,.csv,text/tab-separated-values,.tsv"
+                onChange={(event) => {
                   const file = event.currentTarget.files?.[0];
                   event.currentTarget.value = "";
 
-                  if (!file) {
-                    return;
-                  }
-
-                  try {
-                    await handleImport(file);
-                  } catch (error) {
-                    window.alert(
-                      `Échec de l'import: ${error instanceof Error ? error.message : "inconnu"}`,
-                    );
+                  if (file) {
+                    void handleImport(file);
                   }
                 }}
               />
             </label>
-          </div>
-        </header>
-
-        <section className="filters">
-          <input
-            type="text"
-            placeholder="Filtrer par nom..."
-            value={query}
-            onChange={(event) => setQuery(event.target.value)}
-            aria-label="Filtrer par nom"
-            className="text-input"
-          />
 
-          <select
-            value={showMode}
-            onChange={(event) =>
-              setShowMode(event.target.value as typeof showMode)
-            }
-            aria-label="Filtrer par statut"
-            className="select-input"
-          >
-            <option value="all">Afficher: Tous</option>
-            <option value="with">Afficher: Avec skin coche</option>
-            <option value="without">Afficher: Sans skin coche</option>
-          </select>
-
-          <div className="toolbar compact">
-            <button type="button" onClick={expandAll} className="action-button">
-              Tout déployer
-            </button>
             <button
               type="button"
-              onClick={collapseAll}
+              onClick={() => void importFromClient()}
               className="action-button"
+              disabled={readingClient}
+              title={t.lcu.buttonTitle}
             >
-              Tout replier
+              {readingClient ? t.lcu.reading : t.lcu.button}
             </button>
           </div>
-        </section>
-
-        <ul className="champion-list">
-          {filteredChampions.map((champion) => (
-            <ChampionRow
-              key={champion.id}
-              champion={champion}
-              expanded={expanded.has(champion.id)}
-              setExpanded={(open) =>
-                setExpanded((previous) => {
-                  const next = new Set(previous);
-                  if (open) {
-                    next.add(champion.id);
-                  } else {
-                    next.delete(champion.id);
-                  }
-                  return next;
-                })
-              }
-              onToggleAll={(checked) => toggleAllSkins(champion.id, checked)}
-              onToggleSkin={(skinId, checked) =>
-                toggleSkin(champion.id, skinId, checked)
+        </header>
+
+        {storageIssue && storageIssueText ? (
+          <div
+            className={
+              storageIssue.kind === "migrated" ? "notice" : "notice notice--error"
+            }
+          >
+            <p>{storageIssueText}</p>
+            <div className="toolbar compact" style={{ marginTop: 10 }}>
+              {"backedUp" in storageIssue && storageIssue.backedUp ? (
+                <button
+                  type="button"
+                  onClick={downloadLatestBackup}
+                  className="action-button"
+                >
+                  {t.storage.downloadBackup}
+                </button>
+              ) : keepStored ? (
+                <button
+                  type="button"
+                  onClick={() => downloadStoredChampions(profile.id)}
+                  className="action-button"
+                >
+                  {t.storage.downloadOriginal}
+                </button>
+              ) : null}
+              <button
+                type="button"
+                onClick={() => setStorageIssue(null)}
+                className="action-button"
+              >
+                {t.storage.dismiss}
+              </button>
+            </div>
+          </div>
+        ) : null}
+
+        {ddErrorText ? <div className="notice notice--error">{ddErrorText}</div> : null}
+
+        {showSpending ? (
+          <SpendingSummary champions={champions} onClose={() => setShowSpending(false)} />
+        ) : null}
+
+        {sharePayload ? (
+          <SharedCollectionView
+            name={shared?.payload === sharePayload ? shared.name : ""}
+            champions={shared?.payload === sharePayload ? shared.champions : null}
+            error={shared?.payload === sharePayload ? shared.error : null}
+            labelOf={championLabel}
+            onImport={importShared}
+            onClose={closeShared}
+          />
+        ) : (
+          <>
+          <section className="filters">
+            <input
+              type="text"
+              placeholder={t.tracker.filterPlaceholder}
+              value={query}
+              onChange={(event) => setQuery(event.target.value)}
+              aria-label={t.tracker.filterLabel}
+              title={t.tracker.filterHelp}
+              className="text-input"
+            />
+
+            <select
+              value={showMode}
+              onChange={(event) =>
+                setShowMode(event.target.value as typeof showMode)
               }
-              onAddSkin={(skinName) => addSkin(champion.id, skinName)}
-              onRemoveSkin={(skinId) => removeSkin(champion.id, skinId)}
-              onPrefill={() => void prefillChampion(champion)}
-              ddragonReady={Boolean(ddVersion && ddKeyMap)}
+              aria-label={t.tracker.statusLabel}
+              className="select-input"
+            >
+              <option value="all">{t.tracker.showAll}</option>
+              <option value="with">{t.tracker.showWith}</option>
+              <option value="without">{t.tracker.showWithout}</option>
+              <option value="wishlist">{t.tracker.showWishlist}</option>
+            </select>
+
+            <select
+              value={tierFilter}
+              onChange={(event) => setTierFilter(event.target.value as TierFilter)}
+              aria-label={t.tiers.filterLabel}
+              className="select-input"
+            >
+              <option value="all">{t.tiers.all}</option>
+              {SKIN_TIERS.map((tier) => (
+                <option key={tier} value={tier}>
+                  {t.tiers.names[tier]}
+                </option>
+              ))}
+              <option value="unpriced">{t.tiers.unpriced}</option>
+            </select>
+
+            <select
+              value={skinSort}
+              onChange={(event) => setSkinSort(event.target.value as typeof skinSort)}
+              aria-label={t.tiers.sortLabel}
+              className="select-input"
+            >
+              <option value="catalog">{t.tiers.sortCatalog}</option>
+              <option value="tier">{t.tiers.sortTier}</option>
+            </select>
+
+            <div className="toolbar compact" role="group" aria-label={t.skinLines.viewLabel}>
+              <button
+                type="button"
+                onClick={() => setView("champions")}
+                className="action-button"
+                aria-pressed={view === "champions"}
+              >
+                {t.skinLines.byChampion}
+              </button>
+              <button
+                type="button"
+                onClick={() => setView("lines")}
+                className="action-button"
+                aria-pressed={view === "lines"}
+              >
+                {t.skinLines.byLine}
+              </button>
+              <button
+                type="button"
+                onClick={() => setView("seen")}
+                className="action-button"
+                aria-pressed={view === "seen"}
+              >
+                {t.seen.view}
+              </button>
+            </div>
+
+            <div className="toolbar compact">
+              <button type="button" onClick={expandAll} className="action-button">
+                {t.tracker.expandAll}
+              </button>
+              <button
+                type="button"
+                onClick={collapseAll}
+                className="action-button"
+              >
+                {t.tracker.collapseAll}
+              </button>
+            </div>
+          </section>
+
+          {searchQuery.invalid.length > 0 ? (
+            <p className="notice">{t.tracker.filterInvalid(searchQuery.invalid.join(" "))}</p>
+          ) : null}
+
+          {orphans.length > 0 ? (
+            <section className="notice reconcile">
+              <p>{t.roster.orphansIntro(orphans.length)}</p>
+              <ul className="reconcile-list">
+                {orphans.map((orphan) => (
+                  <OrphanRow
+                    key={orphan.id}
+                    orphan={orphan}
+                    candidates={champions.filter((champion) => champion.key)}
+                    labelOf={championLabel}
+                    onMerge={(targetId) => mergeOrphan(orphan, targetId)}
+                    onRemove={() => removeOrphan(orphan)}
+                  />
+                ))}
+              </ul>
+            </section>
+          ) : null}
+
+          {view === "seen" ? (
+            <SeenSkinsView
+              games={live.seenGames}
+              champions={champions}
+              labelOf={championLabel}
+              onWishlist={wishlistSeenSkin}
+            />
+          ) : view === "lines" ? (
+            <SkinLinesView
+              lines={skinLines}
+              labelOf={(id) => {
+                const champion = championById(id);
+                return champion ? championLabel(champion) : id;
+              }}
+              onSetStatus={(championId, skinIds, status) => {
+                const champion = championById(championId);
+                if (champion) setSkinsStatus(champion, skinIds, status);
+              }}
+              onRemoveSkins={(championId, skinIds) => {
+                const champion = championById(championId);
+                if (champion) removeSkins(champion, skinIds);
+              }}
             />
-          ))}
-        </ul>
+          ) : showMode === "wishlist" ? (
+            <ul className="champion-list">
+              {filteredChampions.map((champion) => (
+                <WishlistRow
+                  key={champion.id}
+                  champion={champion}
+                  label={championLabel(champion)}
+                  onSetStatus={(skinIds, status) =>
+                    setSkinsStatus(champion, skinIds, status)
+                  }
+                />
+              ))}
+            </ul>
+          ) : (
+            <ul className="champion-list">
+              {filteredChampions.map((champion) => (
+                <ChampionRow
+                  key={champion.id}
+                  champion={champion}
+                  label={championLabel(champion)}
+                  expanded={expanded.has(champion.id)}
+                  setExpanded={(open) => {
+                    if (open && champion.isNew) {
+                      // not an edit worth undoing
+                      patch((previous) =>
+                        previous.map((current) =>
+                          current.id === champion.id
+                            ? { ...current, isNew: undefined }
+                            : current,
+                        ),
+                      );
+                    }
+                    setExpanded((previous) => {
+                      const next = new Set(previous);
+                      if (open) {
+                        next.add(champion.id);
+                      } else {
+                        next.delete(champion.id);
+                      }
+                      return next;
+                    });
+                  }}
+                  onToggleAll={(checked) => toggleAllSkins(champion, checked)}
+                  onSetStatus={(skinIds, status) =>
+                    setSkinsStatus(champion, skinIds, status)
+                  }
+                  onToggleChroma={(skinId, chromaId, checked) =>
+                    toggleChroma(champion, skinId, chromaId, checked)
+                  }
+                  onSetAcquisition={(skinId, acquisition) =>
+                    setAcquisition(champion, skinId, acquisition)
+                  }
+                  onAddSkin={(skinName) => addSkin(champion.id, skinName)}
+                  onRemoveSkins={(skinIds) => removeSkins(champion, skinIds)}
+                  onPrefill={() => void prefillChampion(champion)}
+                  ddragonReady={Boolean(ddVersion && ddKeyMap)}
+                  tierFilter={tierFilter}
+                  sortByTier={skinSort === "tier"}
+                  playedGames={live.playedGames}
+                  search={searchQuery}
+                />
+              ))}
+            </ul>
+          )}
 
-        {filteredChampions.length === 0 ? (
-          <p className="empty-state">
-            Aucun champion ne correspond à votre filtre.
-          </p>
-        ) : null}
+          {filteredChampions.length === 0 ? (
+            <p className="empty-state">{t.tracker.empty}</p>
+          ) : null}
+          </>
+        )}
       </div>
+
+      {pendingImport ? (
+        <ImportDialog
+          fileName={pendingImport.fileName}
+          preview={pendingImport.preview}
+          current={champions}
+          imported={pendingImport.champions}
+          labelOf={(id) => {
+            const champion = championById(id);
+            return champion ? championLabel(champion) : id;
+          }}
+          onApply={applyImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      ) : null}
+
+      {toast ? (
+        <div className="toast" role="status">
+          <span>{toast}</span>
+          {/* an edit that changed nothing added no step to undo */}
+          {undoLabel === toast ? (
+            <button type="button" onClick={undo} className="action-button">
+              {t.history.undo}
+            </button>
+          ) : null}
+          <button
+            type="button"
+            onClick={() => setToast(null)}
+            className="toast__close"
+            aria-label={t.storage.dismiss}
+          >
+            ✕
+          </button>
+        </div>
+      ) : null}
     </div>
   );
 }
 
 type ChampionRowProps = {
   champion: Champion;
+  label: string;
   expanded: boolean;
   setExpanded: (open: boolean) => void;
   onToggleAll: (checked: boolean) => void;
-  onToggleSkin: (skinId: string, checked: boolean) => void;
+  onSetStatus: (skinIds: string[], status: SkinStatus) => void;
+  onToggleChroma: (skinId: string, chromaId: string, checked: boolean) => void;
+  onSetAcquisition: (skinId: string, acquisition: Acquisition | undefined) => void;
   onAddSkin: (name: string) => void;
-  onRemoveSkin: (skinId: string) => void;
+  onRemoveSkins: (skinIds: string[]) => void;
   onPrefill: () => void;
   ddragonReady: boolean;
+  tierFilter: TierFilter;
+  sortByTier: boolean;
+  search: SearchQuery;
+  playedGames: PlayedGame[];
 };
 
 function ChampionRow({
   champion,
+  label,
   expanded,
   setExpanded,
   onToggleAll,
-  onToggleSkin,
+  onSetStatus,
+  onToggleChroma,
+  onSetAcquisition,
   onAddSkin,
-  onRemoveSkin,
+  onRemoveSkins,
   onPrefill,
   ddragonReady,
+  tierFilter,
+  sortByTier,
+  search,
+  playedGames,
 }: ChampionRowProps) {
+  const { locale, t } = useI18n();
+  const plays = useMemo(
+    () => (expanded ? skinPlays(playedGames, champion, () => label) : new Map<string, SkinPlays>()),
+    [expanded, playedGames, champion, label],
+  );
   const [newSkin, setNewSkin] = useState("");
   const masterRef = useRef<HTMLInputElement>(null);
   const [openBases, setOpenBases] = useState<Set<string>>(new Set());
 
-  const totalSkins = champion.skins.length;
-  const checkedSkins = champion.skins.filter((skin) => skin.checked).length;
+  const totalSkins = champion.skins.filter((skin) => skin.status !== "ignored").length;
+  const checkedSkins = champion.skins.filter((skin) => skin.status === "owned").length;
   const allChecked = totalSkins > 0 && checkedSkins === totalSkins;
   const someChecked = checkedSkins > 0 && checkedSkins < totalSkins;
 
@@ -909,7 +1550,7 @@ function ChampionRow({
           checked={allChecked}
           onChange={(event) => onToggleAll(event.target.checked)}
           disabled={totalSkins === 0}
-          aria-label={`Tout cocher pour ${champion.name}`}
+          aria-label={t.row.toggleAll(label)}
         />
 
         <button
@@ -919,7 +1560,10 @@ function ChampionRow({
           aria-expanded={expanded}
           aria-controls={`panel-${champion.id}`}
         >
-          <span>{champion.name}</span>
+          <span>
+            <Highlight text={label} ranges={highlightRanges(search, label, ["text", "champ"])} />
+            {champion.isNew ? <span className="badge-new">{t.row.newBadge}</span> : null}
+          </span>
           <span className="champion-row__count">
             {checkedSkins}/{totalSkins}
           </span>
@@ -930,9 +1574,9 @@ function ChampionRow({
           onClick={onPrefill}
           className="action-button"
           disabled={!ddragonReady}
-          title="Préremplir les skins officiels pour ce champion"
+          title={t.row.prefillTitle}
         >
-          ↻ Préremplir
+          {t.row.prefill}
         </button>
       </div>
 
@@ -941,7 +1585,7 @@ function ChampionRow({
           <div className="add-skin-row">
             <input
               type="text"
-              placeholder="Ajouter un skin..."
+              placeholder={t.row.addPlaceholder}
               value={newSkin}
               onChange={(event) => setNewSkin(event.target.value)}
               onKeyDown={(event) => {
@@ -949,7 +1593,7 @@ function ChampionRow({
                   submitSkin();
                 }
               }}
-              aria-label={`Ajouter un skin pour ${champion.name}`}
+              aria-label={t.row.addLabel(label)}
               className="text-input"
             />
             <button
@@ -957,27 +1601,55 @@ function ChampionRow({
               onClick={submitSkin}
               className="action-button"
             >
-              Ajouter
+              {t.row.add}
             </button>
           </div>
 
           {champion.skins.length === 0 ? (
-            <p className="empty-inline">Aucun skin pour l'instant. Ajoutez-en ci-dessus.</p>
+            <p className="empty-inline">{t.row.empty}</p>
           ) : (
             (() => {
-              const groups = groupSkins(champion.skins);
+              const groups = groupSkins(champion.skins)
+                .map((g) => ({ ...g, tier: groupTier(g.variants) }))
+                .filter((g) => matchesTierFilter(g.tier, tierFilter));
+              if (sortByTier) {
+                groups.sort((a, b) => compareTiers(a.tier, b.tier));
+              }
+              const numberFormat = new Intl.NumberFormat(locale.replace("_", "-"));
+              const dateFormat = new Intl.DateTimeFormat(locale.replace("_", "-"));
               return (
                 <ul className="skin-list">
-                  {groups.map((g) => (
-                    <li key={g.base} className="skin-item">
+                  {groups.map((g) => {
+                    const chromas = g.variants.flatMap((v) =>
+                      v.chromas.map((chroma) => ({ skinId: v.id, chroma })),
+                    );
+                    const checkedChromas = chromas.filter((c) => c.chroma.checked).length;
+                    const status = groupStatus(g.variants);
+                    const matched = hasSkinTerms(search) && groupMatches(search, g);
+                    const played = g.variants
+                      .map((v) => plays.get(v.id))
+                      .filter((p): p is SkinPlays => p !== undefined);
+                    const playCount = played.reduce((sum, p) => sum + p.games, 0);
+                    const lastPlayed = played.reduce(
+                      (last, p) => (p.lastPlayed > last ? p.lastPlayed : last),
+                      "",
+                    );
+
+                    return (
+                    <li
+                      key={g.base}
+                      className={`skin-item skin-item--${status}${matched ? " skin-item--match" : ""}`}
+                    >
                       <div style={{ display: "flex", alignItems: "center", gap: 12 }}>
                         <input
                           type="checkbox"
-                          checked={g.variants.some((v) => v.checked)}
-                          onChange={(e) => {
-                            const checked = e.target.checked;
-                            for (const v of g.variants) onToggleSkin(v.id, checked);
-                          }}
+                          checked={status === "owned"}
+                          onChange={(e) =>
+                            onSetStatus(
+                              g.variants.map((v) => v.id),
+                              e.target.checked ? "owned" : "unknown",
+                            )
+                          }
                         />
                         <button
                           type="button"
@@ -990,50 +1662,112 @@ function ChampionRow({
                           className="champion-row__toggle"
                           style={{ background: "transparent", border: 0, padding: 0 }}
                         >
-                          <span>{g.display}</span>
+                          <span>
+                            <Highlight
+                              text={g.display}
+                              ranges={highlightRanges(search, g.display, ["text", "skin"])}
+                            />
+                          </span>
+                          {g.tier ? (
+                            <span
+                              className={`tier-badge tier-badge--${g.tier}`}
+                              title={t.tiers.badgeTitle(numberFormat.format(tierValue(g.tier)))}
+                            >
+                              {t.tiers.names[g.tier]}
+                            </span>
+                          ) : null}
+                          {chromas.length > 0 ? (
+                            <span className="champion-row__count">
+                              {t.row.chromas(checkedChromas, chromas.length)}
+                            </span>
+                          ) : null}
+                          {playCount > 0 ? (
+                            <span
+                              className="champion-row__count"
+                              title={t.row.lastPlayed(dateFormat.format(new Date(lastPlayed)))}
+                            >
+                              {t.row.played(playCount)}
+                            </span>
+                          ) : null}
                         </button>
                       </div>
 
                       <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                        <StatusSelect
+                          value={status}
+                          onChange={(status) =>
+                            onSetStatus(g.variants.map((v) => v.id), status)
+                          }
+                          label={t.row.statusLabel(g.display)}
+                        />
                         <button
                           type="button"
                           onClick={() => onPrefill()}
                           className="action-button"
                           disabled={!ddragonReady}
-                          title="Préremplir"
+                          title={t.row.prefillShortTitle}
                           style={{ padding: "6px 8px" }}
                         >
                           ↻
                         </button>
                         <button
                           type="button"
-                          onClick={() => {
-                            for (const v of g.variants) onRemoveSkin(v.id);
-                          }}
+                          onClick={() => onRemoveSkins(g.variants.map((v) => v.id))}
                           className="delete-button"
                           style={{ padding: "6px 8px" }}
                         >
-                          Supprimer
+                          {t.row.remove}
                         </button>
                       </div>
 
                       {openBases.has(g.base) ? (
                         <ul style={{ marginTop: 8 }}>
                           {g.variants.map((v) => (
-                            <li key={v.id} style={{ display: "flex", alignItems: "center", gap: 8 }}>
+                            <li key={v.id} style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: 8 }}>
                               <label style={{ display: "flex", alignItems: "center", gap: 8 }}>
-                                <input type="checkbox" checked={v.checked} onChange={(e) => onToggleSkin(v.id, e.target.checked)} />
-                                <span title={v.name}>{v.name}</span>
+                                <input type="checkbox" checked={v.status === "owned"} onChange={(e) => onSetStatus([v.id], e.target.checked ? "owned" : "unknown")} />
+                                <span title={v.name}>
+                                  <Highlight
+                                    text={v.name}
+                                    ranges={highlightRanges(search, v.name, ["text", "skin"])}
+                                  />
+                                </span>
                               </label>
-                              <button type="button" className="delete-button" onClick={() => onRemoveSkin(v.id)} style={{ marginLeft: 12 }}>
-                                Supprimer variante
+                              <StatusSelect
+                                value={v.status}
+                                onChange={(status) => onSetStatus([v.id], status)}
+                                label={t.row.statusLabel(v.name)}
+                              />
+                              <button type="button" className="delete-button" onClick={() => onRemoveSkins([v.id])} style={{ marginLeft: 12 }}>
+                                {t.row.removeVariant}
                               </button>
+                              {v.status === "owned" ? (
+                                <AcquisitionEditor
+                                  key={JSON.stringify(v.acquisition ?? {})}
+                                  acquisition={v.acquisition}
+                                  label={v.name}
+                                  onChange={(acquisition) => onSetAcquisition(v.id, acquisition)}
+                                />
+                              ) : null}
+                            </li>
+                          ))}
+                          {chromas.map(({ skinId, chroma }) => (
+                            <li key={chroma.id} style={{ display: "flex", alignItems: "center", gap: 8, paddingLeft: 24 }}>
+                              <label style={{ display: "flex", alignItems: "center", gap: 8 }}>
+                                <input
+                                  type="checkbox"
+                                  checked={chroma.checked}
+                                  onChange={(e) => onToggleChroma(skinId, chroma.id, e.target.checked)}
+                                />
+                                <span title={chroma.name}>{chroma.name}</span>
+                              </label>
                             </li>
                           ))}
                         </ul>
                       ) : null}
                     </li>
-                  ))}
+                    );
+                  })}
                 </ul>
               );
             })()
@@ -1043,3 +1777,128 @@ function ChampionRow({
     </li>
   );
 }
+
+type StatusSelectProps = {
+  value: SkinStatus;
+  onChange: (status: SkinStatus) => void;
+  label: string;
+};
+
+function StatusSelect({ value, onChange, label }: StatusSelectProps) {
+  const { t } = useI18n();
+
+  return (
+    <select
+      value={value}
+      onChange={(event) => onChange(event.target.value as SkinStatus)}
+      aria-label={label}
+      className="select-input status-select"
+    >
+      {SKIN_STATUSES.map((status) => (
+        <option key={status} value={status}>
+          {t.status[status]}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+type WishlistRowProps = {
+  champion: Champion;
+  label: string;
+  onSetStatus: (skinIds: string[], status: SkinStatus) => void;
+};
+
+function WishlistRow({ champion, label, onSetStatus }: WishlistRowProps) {
+  const { t } = useI18n();
+  const wanted = groupSkins(champion.skins).filter(
+    (g) => groupStatus(g.variants) === "wishlist",
+  );
+
+  return (
+    <li className="champion-row">
+      <div className="champion-row__top">
+        <span>{label}</span>
+        <span className="champion-row__count">{wanted.length}</span>
+      </div>
+      <ul className="skin-list">
+        {wanted.map((g) => {
+          const ids = g.variants.map((v) => v.id);
+          return (
+            <li key={g.base} className="skin-item skin-item--wishlist">
+              <span>{g.display}</span>
+              <div className="toolbar compact">
+                <button
+                  type="button"
+                  onClick={() => onSetStatus(ids, "owned")}
+                  className="action-button"
+                >
+                  {t.wishlist.markOwned}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onSetStatus(ids, "unknown")}
+                  className="delete-button"
+                >
+                  {t.wishlist.remove}
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </li>
+  );
+}
+
+type OrphanRowProps = {
+  orphan: Champion;
+  candidates: Champion[];
+  labelOf: (champion: Champion) => string;
+  onMerge: (targetId: string) => void;
+  onRemove: () => void;
+};
+
+function OrphanRow({ orphan, candidates, labelOf, onMerge, onRemove }: OrphanRowProps) {
+  const { t } = useI18n();
+  const [targetId, setTargetId] = useState(() => {
+    const name = normalize(orphan.name);
+    const guess = candidates.find(
+      (champion) =>
+        normalize(champion.name).includes(name) || name.includes(normalize(champion.name)),
+    );
+    return guess?.id ?? "";
+  });
+
+  return (
+    <li className="reconcile-item">
+      <span>
+        {orphan.name} · {t.roster.skinCount(orphan.skins.length)}
+      </span>
+      <select
+        value={targetId}
+        onChange={(event) => setTargetId(event.target.value)}
+        aria-label={t.roster.targetLabel(orphan.name)}
+        className="select-input"
+      >
+        <option value="">{t.roster.chooseTarget}</option>
+        {candidates.map((champion) => (
+          <option key={champion.id} value={champion.id}>
+            {labelOf(champion)}
+          </option>
+        ))}
+      </select>
+      <button
+        type="button"
+        onClick={() => onMerge(targetId)}
+        className="action-button"
+        disabled={!targetId}
+      >
+        {t.roster.merge}
+      </button>
+      <button type="button" onClick={onRemove} className="delete-button">
+        {t.roster.remove}
+      </button>
+    </li>
+  );
+}
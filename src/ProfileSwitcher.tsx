@@ -0,0 +1,91 @@
+import { useI18n } from "./i18n";
+import { profileName, type Profile } from "./profiles";
+
+type ProfileSwitcherProps = {
+  profiles: Profile[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+};
+
+export default function ProfileSwitcher({
+  profiles,
+  activeId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+}: ProfileSwitcherProps) {
+  const { t } = useI18n();
+  const active = profiles.find((profile) => profile.id === activeId);
+  const nameOf = (profile: Profile) => profileName(profile, t.profiles.defaultName);
+
+  const create = () => {
+    const name = window.prompt(t.profiles.createPrompt)?.trim();
+    if (name) {
+      onCreate(name);
+    }
+  };
+
+  const rename = () => {
+    if (!active) return;
+    const name = window.prompt(t.profiles.renamePrompt, nameOf(active))?.trim();
+    if (name && name !== nameOf(active)) {
+      onRename(active.id, name);
+    }
+  };
+
+  const remove = () => {
+    if (!active || profiles.length <= 1) return;
+    if (window.confirm(t.profiles.deleteConfirm(nameOf(active)))) {
+      onDelete(active.id);
+    }
+  };
+
+  return (
+    <div className="profile-switcher">
+      <select
+        value={activeId}
+        onChange={(event) => onSelect(event.target.value)}
+        aria-label={t.profiles.label}
+        className="select-input"
+      >
+        {profiles.map((profile) => (
+          <option key={profile.id} value={profile.id}>
+            {profile.riotId ? `${nameOf(profile)} (${profile.riotId})` : nameOf(profile)}
+          </option>
+        ))}
+      </select>
+      <button
+        type="button"
+        onClick={create}
+        className="action-button"
+        title={t.profiles.create}
+        aria-label={t.profiles.create}
+      >
+        +
+      </button>
+      <button
+        type="button"
+        onClick={rename}
+        className="action-button"
+        title={t.profiles.rename}
+        aria-label={t.profiles.rename}
+      >
+        ✎
+      </button>
+      <button
+        type="button"
+        onClick={remove}
+        className="delete-button"
+        disabled={profiles.length <= 1}
+        title={t.profiles.delete}
+        aria-label={t.profiles.delete}
+      >
+        ✕
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { useMemo } from "react";
+import { findGameChampion, findGameSkin, type Champion, type SkinStatus } from "./collection";
+import { useI18n } from "./i18n";
+import { summarizeSeenSkins, type SeenGame, type SeenSkin } from "./seenGames";
+
+const MOST_SEEN = 25;
+
+type SeenSkinsViewProps = {
+  games: SeenGame[];
+  champions: Champion[];
+  labelOf: (champion: Champion) => string;
+  onWishlist: (seen: SeenSkin) => void;
+};
+
+type SeenRow = SeenSkin & {
+  key: string;
+  name: string;
+  champion: string;
+  owned: boolean;
+  /** The skin's status, or the chroma's skin's; `null` when not in the collection. */
+  status: SkinStatus | null;
+};
+
+export default function SeenSkinsView({
+  games,
+  champions,
+  labelOf,
+  onWishlist,
+}: SeenSkinsViewProps) {
+  const { locale, t } = useI18n();
+  const dateFormat = useMemo(
+    () => new Intl.DateTimeFormat(locale.replace("_", "-")),
+    [locale],
+  );
+
+  const rows = useMemo(
+    () =>
+      summarizeSeenSkins(games).map((seen): SeenRow => {
+        const champion = findGameChampion(champions, seen, labelOf);
+        const found = champion ? findGameSkin(champion, seen.skinNum) : null;
+        const chroma = found?.chromaId
+          ? found.skin.chromas.find((c) => c.id === found.chromaId)
+          : undefined;
+
+        return {
+          ...seen,
+          key: `${seen.championKey ?? seen.championName}:${seen.skinNum}`,
+          name:
+            chroma?.name ?? found?.skin.name ?? t.seen.unknownSkin(seen.skinNum),
+          champion: champion ? labelOf(champion) : seen.championName,
+          owned: chroma ? chroma.checked : found?.skin.status === "owned",
+          status: found?.skin.status ?? null,
+        };
+      }),
+    [games, champions, labelOf, t],
+  );
+
+  const notOwned = rows.filter((row) => !row.owned && row.status !== "ignored");
+
+  if (games.length === 0) {
+    return <p className="empty-state">{t.seen.empty}</p>;
+  }
+
+  return (
+    <>
+      <p className="seen-skins__summary">{t.seen.summary(games.length, rows.length)}</p>
+
+      <section className="seen-skins__section">
+        <h3>{t.seen.mostSeen}</h3>
+        <table className="spending-table">
+          <thead>
+            <tr>
+              <th scope="col">{t.seen.skin}</th>
+              <th scope="col">{t.seen.games}</th>
+              <th scope="col">{t.seen.lastSeen}</th>
+              <th scope="col">{t.seen.owned}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.slice(0, MOST_SEEN).map((row) => (
+              <tr key={row.key}>
+                <th scope="row">
+                  {row.name}
+                  <span className="skin-lines__champion">{row.champion}</span>
+                </th>
+                <td>{row.games}</td>
+                <td>{dateFormat.format(new Date(row.lastSeen))}</td>
+                <td>{row.owned ? t.seen.yes : t.seen.no}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      <section className="seen-skins__section">
+        <h3>{t.seen.notOwned}</h3>
+        {notOwned.length === 0 ? (
+          <p className="empty-inline">{t.seen.allOwned}</p>
+        ) : (
+          <ul className="skin-list">
+            {notOwned.map((row) => (
+              <li
+                key={row.key}
+                className={`skin-item${row.status === "wishlist" ? " skin-item--wishlist" : ""}`}
+              >
+                <span>
+                  {row.name}
+                  <span className="skin-lines__champion">
+                    {row.champion} · {t.seen.timesSeen(row.games)}
+                  </span>
+                </span>
+                {row.status === "wishlist" ? (
+                  <span className="skin-lines__champion">{t.status.wishlist}</span>
+                ) : row.status === null || row.status === "unknown" ? (
+                  <button
+                    type="button"
+                    onClick={() => onWishlist(row)}
+                    className="action-button"
+                  >
+                    {t.seen.addToWishlist}
+                  </button>
+                ) : null}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </>
+  );
+}
@@ -0,0 +1,79 @@
+import type { Champion } from "./collection";
+import { useI18n } from "./i18n";
+
+type SharedCollectionViewProps = {
+  name: string;
+  /** `null` while the link's skins are being looked up in the catalog. */
+  champions: Champion[] | null;
+  error: string | null;
+  labelOf: (champion: Champion) => string;
+  onImport: () => void;
+  onClose: () => void;
+};
+
+export default function SharedCollectionView({
+  name,
+  champions,
+  error,
+  labelOf,
+  onImport,
+  onClose,
+}: SharedCollectionViewProps) {
+  const { t } = useI18n();
+  const owned = (champions ?? [])
+    .map((champion) => ({
+      champion,
+      skins: champion.skins.filter((skin) => skin.status === "owned"),
+    }))
+    .filter(({ skins }) => skins.length > 0)
+    .sort((a, b) => labelOf(a.champion).localeCompare(labelOf(b.champion)));
+  const ownedCount = owned.reduce((sum, { skins }) => sum + skins.length, 0);
+
+  return (
+    <section className="shared-view">
+      <div className="notice">
+        <p>
+          <strong>{t.share.heading(name)}</strong> · {t.share.readOnly}
+        </p>
+        {champions ? <p>{t.share.summary(ownedCount, owned.length)}</p> : null}
+        <div className="toolbar compact" style={{ marginTop: 10 }}>
+          <button
+            type="button"
+            onClick={onImport}
+            className="action-button"
+            disabled={!champions || owned.length === 0}
+          >
+            {t.share.import}
+          </button>
+          <button type="button" onClick={onClose} className="action-button">
+            {t.share.close}
+          </button>
+        </div>
+      </div>
+
+      {error ? <div className="notice notice--error">{t.share.invalid(error)}</div> : null}
+
+      {!champions && !error ? <p className="empty-state">{t.share.loading}</p> : null}
+
+      {champions && owned.length === 0 && !error ? (
+        <p className="empty-state">{t.share.empty}</p>
+      ) : null}
+
+      <ul className="champion-list">
+        {owned.map(({ champion, skins }) => (
+          <li key={champion.id} className="champion-row">
+            <div className="champion-row__top">
+              <span>{labelOf(champion)}</span>
+              <span className="champion-row__count">
+                {skins.length}/{champion.skins.length}
+              </span>
+            </div>
+            <p className="shared-view__skins">
+              {skins.map((skin) => skin.name).join(", ")}
+            </p>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,137 @@
+import { useState } from "react";
+import type { SkinStatus } from "./collection";
+import { useI18n } from "./i18n";
+import type { SkinLine } from "./skinLines";
+
+type SkinLinesViewProps = {
+  lines: SkinLine[];
+  labelOf: (championId: string) => string;
+  onSetStatus: (championId: string, skinIds: string[], status: SkinStatus) => void;
+  onRemoveSkins: (championId: string, skinIds: string[]) => void;
+};
+
+export default function SkinLinesView({
+  lines,
+  labelOf,
+  onSetStatus,
+  onRemoveSkins,
+}: SkinLinesViewProps) {
+  const { t } = useI18n();
+  const [open, setOpen] = useState<Set<string>>(new Set());
+  const [showOwned, setShowOwned] = useState(false);
+
+  const toggle = (id: string) =>
+    setOpen((previous) => {
+      const next = new Set(previous);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  return (
+    <>
+      <label className="skin-lines__owned-toggle">
+        <input
+          type="checkbox"
+          checked={showOwned}
+          onChange={(event) => setShowOwned(event.target.checked)}
+        />
+        {t.skinLines.showOwned}
+      </label>
+
+      <ul className="champion-list">
+        {lines.map((line) => {
+          const expanded = open.has(line.id);
+          const items = line.items.filter(
+            (item) =>
+              item.status !== "ignored" && (showOwned || item.status !== "owned"),
+          );
+          const percent = line.total > 0 ? Math.round((line.owned / line.total) * 100) : 0;
+
+          return (
+            <li key={line.id} className="champion-row">
+              <div className="champion-row__top">
+                <button
+                  type="button"
+                  onClick={() => toggle(line.id)}
+                  className="champion-row__toggle"
+                  aria-expanded={expanded}
+                  aria-controls={`line-${line.id}`}
+                >
+                  <span>
+                    {line.name}
+                    {line.inferred ? (
+                      <span className="badge-new" title={t.skinLines.inferredTitle}>
+                        {t.skinLines.inferred}
+                      </span>
+                    ) : null}
+                  </span>
+                  <span className="champion-row__count">
+                    {line.owned}/{line.total}
+                  </span>
+                </button>
+              </div>
+              <div
+                className="progress"
+                role="progressbar"
+                aria-valuenow={percent}
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-label={t.skinLines.completion(line.name)}
+              >
+                <div className="progress__bar" style={{ width: `${percent}%` }} />
+              </div>
+
+              {expanded ? (
+                <div id={`line-${line.id}`} className="champion-row__panel">
+                  {items.length === 0 ? (
+                    <p className="empty-inline">{t.skinLines.complete}</p>
+                  ) : (
+                    <ul className="skin-list">
+                      {items.map((item) => (
+                        <li
+                          key={item.skinIds[0]}
+                          className={`skin-item skin-item--${item.status}`}
+                        >
+                          <label className="skin-item__label">
+                            <input
+                              type="checkbox"
+                              checked={item.status === "owned"}
+                              onChange={(event) =>
+                                onSetStatus(
+                                  item.championId,
+                                  item.skinIds,
+                                  event.target.checked ? "owned" : "unknown",
+                                )
+                              }
+                            />
+                            <span>
+                              {item.name}
+                              <span className="skin-lines__champion">
+                                {labelOf(item.championId)}
+                              </span>
+                            </span>
+                          </label>
+                          <button
+                            type="button"
+                            onClick={() => onRemoveSkins(item.championId, item.skinIds)}
+                            className="delete-button"
+                            style={{ padding: "6px 8px" }}
+                          >
+                            {t.row.remove}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ) : null}
+            </li>
+          );
+        })}
+      </ul>
+
+      {lines.length === 0 ? <p className="empty-state">{t.skinLines.empty}</p> : null}
+    </>
+  );
+}
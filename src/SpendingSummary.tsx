@@ -0,0 +1,75 @@
+import { useMemo } from "react";
+import type { AcquisitionSource, Champion } from "./collection";
+import { useI18n } from "./i18n";
+import { summarizeSpending, type SpendingRow } from "./spending";
+
+type SpendingSummaryProps = {
+  champions: Champion[];
+  onClose: () => void;
+};
+
+export default function SpendingSummary({ champions, onClose }: SpendingSummaryProps) {
+  const { locale, t } = useI18n();
+  const summary = useMemo(() => summarizeSpending(champions), [champions]);
+
+  const monthFormat = new Intl.DateTimeFormat(locale.replace("_", "-"), {
+    month: "long",
+    year: "numeric",
+  });
+  const numberFormat = new Intl.NumberFormat(locale.replace("_", "-"));
+
+  const monthLabel = (key: string | null): string =>
+    key ? monthFormat.format(new Date(`${key}-01T00:00:00`)) : t.spending.undated;
+  const sourceLabel = (key: string | null): string =>
+    key ? t.acquisition.sources[key as AcquisitionSource] : t.spending.noSource;
+
+  const table = (heading: string, rows: SpendingRow[], labelOf: (key: string | null) => string) => (
+    <table className="spending-table">
+      <thead>
+        <tr>
+          <th scope="col">{heading}</th>
+          <th scope="col">{t.spending.skins}</th>
+          <th scope="col">{t.acquisition.currencies.rp}</th>
+          <th scope="col">{t.acquisition.currencies.essence}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <tr key={row.key ?? "none"}>
+            <th scope="row">{labelOf(row.key)}</th>
+            <td>{numberFormat.format(row.skins)}</td>
+            <td>{numberFormat.format(row.rp)}</td>
+            <td>{numberFormat.format(row.essence)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  return (
+    <section className="notice spending">
+      <div className="spending__header">
+        <p>
+          <strong>{t.spending.title}</strong> ·{" "}
+          {t.spending.total(
+            numberFormat.format(summary.total.rp),
+            numberFormat.format(summary.total.essence),
+            summary.total.skins,
+          )}
+        </p>
+        <button type="button" onClick={onClose} className="action-button">
+          {t.spending.close}
+        </button>
+      </div>
+
+      {summary.total.skins === 0 ? (
+        <p>{t.spending.empty}</p>
+      ) : (
+        <div className="spending__tables">
+          {table(t.spending.byMonth, summary.byMonth, monthLabel)}
+          {table(t.spending.bySource, summary.bySource, sourceLabel)}
+        </div>
+      )}
+    </section>
+  );
+}
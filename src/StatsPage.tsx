@@ -0,0 +1,251 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { BarChart, ColumnChart } from "./charts";
+import { DDRAGON_SOURCE } from "./catalog";
+import type { Champion } from "./collection";
+import {
+  fetchChampionIndex,
+  fetchDdragonLatestVersion,
+  type DDragonChampionIndex,
+} from "./ddragon";
+import { useI18n, type Locale } from "./i18n";
+import type { SkinTier } from "./pricing";
+import { profileName, type Profile } from "./profiles";
+import { buildSkinLines } from "./skinLines";
+import { acquisitionsByMonth, buildStats, type StatBucket } from "./stats";
+
+const TOP_CHAMPIONS = 10;
+const TOP_LINES = 15;
+
+type StatsPageProps = {
+  profile: Profile;
+  champions: Champion[];
+};
+
+/** Charts over the profile's collection. */
+export default function StatsPage({ profile, champions }: StatsPageProps) {
+  const { locale, t } = useI18n();
+  const [ddIndex, setDdIndex] = useState<{
+    locale: Locale;
+    index: DDragonChampionIndex;
+  } | null>(null);
+  const [completionOrder, setCompletionOrder] = useState<"completion" | "name">("completion");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    void (async () => {
+      const version = await fetchDdragonLatestVersion(DDRAGON_SOURCE);
+      const index = version ? await fetchChampionIndex(DDRAGON_SOURCE, version, locale) : null;
+      if (!cancelled && index) {
+        setDdIndex({ locale, index });
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [locale]);
+
+  const index = ddIndex && ddIndex.locale === locale ? ddIndex.index : null;
+  const labelOf = useCallback(
+    (champion: Champion): string =>
+      (champion.key && index?.data[champion.key]?.name) || champion.name,
+    [index],
+  );
+
+  const stats = useMemo(
+    () =>
+      buildStats(champions, (champion) =>
+        champion.key ? (index?.data[champion.key]?.tags?.[0] ?? null) : null,
+      ),
+    [champions, index],
+  );
+
+  const lines = useMemo(
+    () => buildSkinLines(champions, locale, labelOf),
+    [champions, locale, labelOf],
+  );
+
+  const months = useMemo(() => acquisitionsByMonth(champions), [champions]);
+
+  const monthFormat = new Intl.DateTimeFormat(locale.replace("_", "-"), {
+    month: "long",
+    year: "numeric",
+  });
+  const shortMonthFormat = new Intl.DateTimeFormat(locale.replace("_", "-"), {
+    month: "2-digit",
+    year: "2-digit",
+  });
+  const monthDate = (month: string) => new Date(`${month}-01T00:00:00`);
+
+  const percentFormat = new Intl.NumberFormat(locale.replace("_", "-"), { style: "percent" });
+  const share = (owned: number, total: number) =>
+    percentFormat.format(total > 0 ? owned / total : 0);
+  const ratio = (bucket: Pick<StatBucket, "owned" | "total">) =>
+    t.stats.ratio(bucket.owned, bucket.total, share(bucket.owned, bucket.total));
+  const roleLabels: Record<string, string> = t.stats.roles;
+
+  const owned = stats.champions.reduce((sum, stat) => sum + stat.owned, 0);
+  const total = stats.champions.reduce((sum, stat) => sum + stat.total, 0);
+
+  const completion = stats.champions
+    .filter((stat) => stat.total > 0)
+    .sort((a, b) =>
+      completionOrder === "completion"
+        ? b.owned / b.total - a.owned / a.total ||
+          labelOf(a.champion).localeCompare(labelOf(b.champion))
+        : labelOf(a.champion).localeCompare(labelOf(b.champion)),
+    );
+
+  const top = stats.champions
+    .filter((stat) => stat.owned > 0)
+    .sort((a, b) => b.owned - a.owned || labelOf(a.champion).localeCompare(labelOf(b.champion)))
+    .slice(0, TOP_CHAMPIONS);
+
+  const topLines = [...lines]
+    .filter((line) => line.total > 0)
+    .sort((a, b) => b.owned - a.owned || b.total - a.total)
+    .slice(0, TOP_LINES);
+
+  return (
+    <div className="tracker-shell">
+      <div className="tracker-card">
+        <header className="tracker-header">
+          <div>
+            <p className="eyebrow">
+              {t.stats.eyebrow} · {profileName(profile, t.profiles.defaultName)}
+            </p>
+            <h1>{t.stats.title}</h1>
+            <p className="subtitle">
+              {t.tracker.skinsSummary(owned, total)} - {share(owned, total)}
+            </p>
+          </div>
+        </header>
+
+        {total === 0 ? (
+          <p className="empty-state">{t.stats.empty}</p>
+        ) : (
+          <div className="stats-grid">
+            <section className="stats-card">
+              <h2>{t.stats.topChampions}</h2>
+              <BarChart
+                label={t.stats.topChampions}
+                rows={top.map((stat) => ({
+                  key: stat.key,
+                  label: labelOf(stat.champion),
+                  value: stat.owned,
+                }))}
+              />
+            </section>
+
+            <section className="stats-card">
+              <h2>{t.stats.byTier}</h2>
+              <BarChart
+                label={t.stats.byTier}
+                rows={stats.tiers
+                  .filter((bucket) => bucket.total > 0)
+                  .map((bucket) => ({
+                    key: bucket.key,
+                    label:
+                      bucket.key === "unpriced"
+                        ? t.tiers.unpriced
+                        : t.tiers.names[bucket.key as SkinTier],
+                    value: bucket.owned,
+                    max: bucket.total,
+                    caption: ratio(bucket),
+                  }))}
+              />
+            </section>
+
+            <section className="stats-card">
+              <h2>{t.stats.byRole}</h2>
+              {index ? (
+                <BarChart
+                  label={t.stats.byRole}
+                  rows={stats.roles.map((bucket) => ({
+                    key: bucket.key,
+                    label:
+                      bucket.key === "none"
+                        ? t.stats.noRole
+                        : (roleLabels[bucket.key] ?? bucket.key),
+                    value: bucket.owned,
+                    max: bucket.total,
+                    caption: ratio(bucket),
+                  }))}
+                />
+              ) : (
+                <p className="empty-inline">{t.stats.rolesUnavailable}</p>
+              )}
+            </section>
+
+            <section className="stats-card">
+              <h2>{t.stats.byLine}</h2>
+              {topLines.length > 0 ? (
+                <BarChart
+                  label={t.stats.byLine}
+                  rows={topLines.map((line) => ({
+                    key: line.id,
+                    label: line.name,
+                    value: line.owned,
+                    max: line.total,
+                    caption: ratio(line),
+                  }))}
+                />
+              ) : (
+                <p className="empty-inline">{t.skinLines.empty}</p>
+              )}
+            </section>
+
+            <section className="stats-card stats-card--wide">
+              <h2>{t.stats.overTime}</h2>
+              {months.length > 0 ? (
+                <ColumnChart
+                  label={t.stats.overTime}
+                  rows={months.map(({ month, skins }) => ({
+                    key: month,
+                    label: shortMonthFormat.format(monthDate(month)),
+                    value: skins,
+                  }))}
+                  describe={(row) =>
+                    t.stats.monthTitle(monthFormat.format(monthDate(row.key)), row.value)
+                  }
+                />
+              ) : (
+                <p className="empty-inline">{t.stats.noAcquisitions}</p>
+              )}
+            </section>
+
+            <section className="stats-card stats-card--wide">
+              <div className="stats-card__header">
+                <h2>{t.stats.byChampion}</h2>
+                <select
+                  value={completionOrder}
+                  onChange={(event) =>
+                    setCompletionOrder(event.target.value as typeof completionOrder)
+                  }
+                  aria-label={t.stats.orderLabel}
+                  className="select-input"
+                >
+                  <option value="completion">{t.stats.orderCompletion}</option>
+                  <option value="name">{t.stats.orderName}</option>
+                </select>
+              </div>
+              <div className="stats-card__scroll">
+                <BarChart
+                  label={t.stats.byChampion}
+                  rows={completion.map((stat) => ({
+                    key: stat.key,
+                    label: labelOf(stat.champion),
+                    value: stat.owned,
+                    max: stat.total,
+                    caption: ratio(stat),
+                  }))}
+                />
+              </div>
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { fetchCDragonSkins } from "./chromas";
+import {
+  baseSkinName,
+  isChromaName,
+  normalize,
+  type CatalogSkin,
+  type RosterEntry,
+} from "./collection";
+import {
+  fetchChampionDetail,
+  resolveDdragonSource,
+  type DDragonChampionIndex,
+  type DDragonSource,
+} from "./ddragon";
+
+export const DDRAGON_SOURCE = resolveDdragonSource();
+
+export function buildKeyMap(index: DDragonChampionIndex): Map<string, string> {
+  const map = new Map<string, string>();
+
+  for (const [key, value] of Object.entries(index.data)) {
+    map.set(normalize(value.name), key);
+    map.set(normalize(value.id), key);
+  }
+
+  return map;
+}
+
+export async function fetchChampionSkins(
+  source: DDragonSource,
+  version: string,
+  locale: string,
+  key: string,
+): Promise<CatalogSkin[]> {
+  const data = await fetchChampionDetail(source, version, locale, key);
+  const champion = data?.data[key];
+  if (!champion) {
+    return [];
+  }
+
+  // fetched even without chromas: the rarity prices the skin
+  const cdragonSkins = await fetchCDragonSkins(version, locale, champion.key);
+
+  const skins: CatalogSkin[] = [];
+  for (const skin of champion.skins) {
+    // chroma entries are listed under their parent skin instead
+    if (skin.num === 0 || isChromaName(skin.name)) continue;
+
+    const name = skin.name.trim();
+    const { chromas = [], rarity } = cdragonSkins.get(skin.id) ?? {};
+    const existing = skins.find((s) => baseSkinName(s.name) === baseSkinName(name));
+    if (!existing) {
+      skins.push({ ddragonId: Number(skin.id), num: skin.num, name, chromas, rarity });
+      continue;
+    }
+
+    // prefer the non-parenthesized variant if available
+    if (/\([^)]*\)/.test(existing.name) && !/\([^)]*\)/.test(name)) {
+      existing.ddragonId = Number(skin.id);
+      existing.num = skin.num;
+      existing.name = name;
+      existing.rarity = rarity;
+    }
+    existing.chromas = [...existing.chromas, ...chromas];
+  }
+
+  return skins;
+}
+
+export function rosterFromIndex(index: DDragonChampionIndex): RosterEntry[] {
+  return Object.values(index.data).map(({ id, name }) => ({ key: id, name }));
+}
@@ -0,0 +1,119 @@
+export type BarRow = {
+  key: string;
+  label: string;
+  value: number;
+  /** Length of a full bar; the largest value when left out. */
+  max?: number;
+  /** Text shown after the bar, `value` when left out. */
+  caption?: string;
+};
+
+type BarChartProps = {
+  label: string;
+  rows: BarRow[];
+};
+
+/** Horizontal bars, one per row, scaled to the row's `max`. */
+export function BarChart({ label, rows }: BarChartProps) {
+  const largest = Math.max(1, ...rows.map((row) => row.value));
+
+  return (
+    <ul className="bar-chart" aria-label={label}>
+      {rows.map((row) => {
+        const max = row.max ?? largest;
+        const percent = max > 0 ? Math.min(100, (row.value / max) * 100) : 0;
+        const caption = row.caption ?? String(row.value);
+
+        return (
+          <li key={row.key} className="bar-chart__row">
+            <span className="bar-chart__label" title={row.label}>
+              {row.label}
+            </span>
+            <span className="bar-chart__track" aria-hidden="true">
+              <span className="bar-chart__bar" style={{ width: `${percent}%` }} />
+            </span>
+            <span className="bar-chart__value">{caption}</span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+export type ColumnRow = {
+  key: string;
+  label: string;
+  value: number;
+};
+
+type ColumnChartProps = {
+  label: string;
+  rows: ColumnRow[];
+  /** Title of each column, e.g. "March 2024: 3 skins". */
+  describe: (row: ColumnRow) => string;
+};
+
+const COLUMN_WIDTH = 36;
+const COLUMN_GAP = 8;
+const CHART_HEIGHT = 140;
+const AXIS_HEIGHT = 20;
+
+/** Vertical columns drawn in SVG, for values over time. */
+export function ColumnChart({ label, rows, describe }: ColumnChartProps) {
+  const largest = Math.max(1, ...rows.map((row) => row.value));
+  const width = rows.length * (COLUMN_WIDTH + COLUMN_GAP) + COLUMN_GAP;
+
+  return (
+    <div className="column-chart">
+      <svg
+        role="img"
+        aria-label={label}
+        width={width}
+        height={CHART_HEIGHT + AXIS_HEIGHT}
+        viewBox={`0 0 ${width} ${CHART_HEIGHT + AXIS_HEIGHT}`}
+      >
+        {rows.map((row, index) => {
+          // keep small non-zero values visible, and leave room for the label on top
+          const height = Math.max(
+            row.value > 0 ? 2 : 0,
+            (row.value / largest) * (CHART_HEIGHT - 16),
+          );
+          const x = COLUMN_GAP + index * (COLUMN_WIDTH + COLUMN_GAP);
+          const y = CHART_HEIGHT - height;
+
+          return (
+            <g key={row.key}>
+              <title>{describe(row)}</title>
+              <rect
+                x={x}
+                y={y}
+                width={COLUMN_WIDTH}
+                height={height}
+                rx={4}
+                className="column-chart__column"
+              />
+              {row.value > 0 ? (
+                <text
+                  x={x + COLUMN_WIDTH / 2}
+                  y={y - 4}
+                  textAnchor="middle"
+                  className="column-chart__value"
+                >
+                  {row.value}
+                </text>
+              ) : null}
+              <text
+                x={x + COLUMN_WIDTH / 2}
+                y={CHART_HEIGHT + 14}
+                textAnchor="middle"
+                className="column-chart__label"
+              >
+                {row.label}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { readCachedCatalog, writeCachedCatalog } from "./ddragonCache";
+import chromaFixture from "./data/chromas.fixture.json";
+import { resolveDdragonSource } from "./ddragon";
+
+/**
+ * Data Dragon only flags skins that have chromas; the chromas themselves come
+ * from CommunityDragon's game data, as do skin rarities. When it can't be
+ * reached, the bundled fixture keeps a few champions usable offline and in
+ * tests.
+ */
+export type CatalogChroma = {
+  id: string;
+  name: string;
+};
+
+/** What CommunityDragon adds to a Data Dragon skin. */
+export type CDragonSkin = {
+  chromas: CatalogChroma[];
+  /** The game's rarity, e.g. "kEpic"; "kNoRarity" for the cheaper skins. */
+  rarity?: string;
+};
+
+type CDragonChampion = {
+  skins?: {
+    id: number;
+    rarity?: string;
+    chromas?: { id: number; name: string }[];
+  }[];
+};
+
+const CDRAGON_CDN_URL = "https://raw.communitydragon.org/latest";
+
+/**
+ * CommunityDragon base URL, or `null` to stay offline: a local Data Dragon
+ * setup only reaches CommunityDragon when `VITE_CDRAGON_URL` says where.
+ */
+export function resolveCdragonUrl(env: ImportMetaEnv = import.meta.env): string | null {
+  const url = env.VITE_CDRAGON_URL?.trim();
+  if (url) {
+    return url.replace(/\/+$/, "");
+  }
+
+  return resolveDdragonSource(env).kind === "local" ? null : CDRAGON_CDN_URL;
+}
+
+const CDRAGON_URL = resolveCdragonUrl();
+
+const fixture = chromaFixture as Record<string, CDragonChampion>;
+
+// CommunityDragon names its locales `fr_fr`; English lives under `default`.
+const cdragonLocale = (locale: string): string =>
+  locale.toLowerCase() === "en_us" ? "default" : locale.toLowerCase();
+
+function parseSkins(champion: CDragonChampion | null | undefined): Map<string, CDragonSkin> {
+  const bySkin = new Map<string, CDragonSkin>();
+
+  for (const skin of champion?.skins ?? []) {
+    bySkin.set(String(skin.id), {
+      chromas: (Array.isArray(skin.chromas) ? skin.chromas : [])
+        .filter((chroma) => typeof chroma.name === "string" && chroma.name.trim())
+        .map((chroma) => ({ id: String(chroma.id), name: chroma.name.trim() })),
+      rarity: typeof skin.rarity === "string" ? skin.rarity : undefined,
+    });
+  }
+
+  return bySkin;
+}
+
+async function fetchCDragonChampion(
+  locale: string,
+  championKey: string,
+): Promise<CDragonChampion | null> {
+  if (!CDRAGON_URL) {
+    return null;
+  }
+
+  try {
+    const response = await fetch(
+      `${CDRAGON_URL}/plugins/rcp-be-lol-game-data/global/${cdragonLocale(locale)}/v1/champions/${championKey}.json`,
+    );
+    if (!response.ok) {
+      return null;
+    }
+
+    return (await response.json()) as CDragonChampion;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns the chromas and rarity of a champion's skins keyed by skin id (the
+ * Data Dragon skin `id`, e.g. `"103015"`). `championKey` is the numeric
+ * champion key.
+ */
+export async function fetchCDragonSkins(
+  version: string,
+  locale: string,
+  championKey: string,
+): Promise<Map<string, CDragonSkin>> {
+  const cacheKey = `${version}/${locale}/cdragon/${championKey}.json`;
+  const cached = await readCachedCatalog<CDragonChampion>(version, cacheKey);
+  if (cached) {
+    return parseSkins(cached);
+  }
+
+  const fetched = await fetchCDragonChampion(locale, championKey);
+  if (fetched) {
+    await writeCachedCatalog(version, cacheKey, fetched);
+    return parseSkins(fetched);
+  }
+
+  return parseSkins(fixture[championKey]);
+}
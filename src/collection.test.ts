@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import { diffImport, mergeImportedChampions, type Champion, type Skin } from "./collection";
+
+const skin = (num: number, name: string, status: Skin["status"], extra: Partial<Skin> = {}) => ({
+  id: `ahri_${num}`,
+  name,
+  status,
+  chromas: [],
+  ddragonId: 103000 + num,
+  num,
+  ...extra,
+});
+
+const LOCAL: Champion[] = [
+  {
+    id: "champ_ahri",
+    name: "Ahri",
+    key: "Ahri",
+    skins: [
+      skin(15, "Arcade Ahri", "owned", {
+        acquisition: { date: "2024-03-02", source: "shop" },
+      }),
+      skin(27, "Star Guardian Ahri", "unknown", {
+        chromas: [
+          { id: "103028", name: "Ruby", checked: true },
+          { id: "103029", name: "Pearl", checked: false },
+        ],
+      }),
+      skin(1, "Dynasty Ahri", "owned"),
+    ],
+  },
+  { id: "champ_lux", name: "Lux", key: "Lux", skins: [] },
+];
+
+// Renamed in another locale, so only the key matches; Dynasty isn't listed.
+const IMPORTED: Champion[] = [
+  {
+    id: "other_ahri",
+    name: "Ahri (FR)",
+    key: "Ahri",
+    skins: [
+      skin(15, "Ahri d'arcade", "wishlist"),
+      skin(27, "Ahri gardienne des étoiles", "owned", {
+        chromas: [{ id: "103029", name: "Perle", checked: true }],
+      }),
+      skin(86, "Ahri Arcana", "owned"),
+    ],
+  },
+  { id: "champ_teemo", name: "Teemo", key: "Teemo", skins: [skin(1, "Recon Teemo", "owned")] },
+];
+
+const statusesOf = (champions: Champion[], id: string) =>
+  champions
+    .find((champion) => champion.id === id)
+    ?.skins.map((s) => [s.num, s.status]);
+
+describe("diffImport", () => {
+  it("lists what an import changes, by local name", () => {
+    expect(diffImport(LOCAL, IMPORTED)).toEqual({
+      champions: [
+        {
+          championId: "champ_ahri",
+          name: "Ahri",
+          added: ["Ahri Arcana"],
+          removed: ["Dynasty Ahri"],
+          owned: ["Star Guardian Ahri", "Star Guardian Ahri · Pearl"],
+          unowned: ["Arcade Ahri"],
+          restatus: [],
+        },
+      ],
+      unmatched: ["Teemo"],
+    });
+  });
+
+  it("lists status changes that keep ownership apart", () => {
+    const imported = [{ ...LOCAL[0], skins: [...LOCAL[0].skins] }];
+    imported[0].skins[1] = { ...imported[0].skins[1], status: "wishlist" };
+
+    expect(diffImport(LOCAL, imported).champions).toEqual([
+      expect.objectContaining({
+        owned: [],
+        unowned: [],
+        restatus: [{ name: "Star Guardian Ahri", from: "unknown", to: "wishlist" }],
+      }),
+    ]);
+  });
+
+  it("leaves out champions the import doesn't change", () => {
+    expect(diffImport(LOCAL, LOCAL)).toEqual({ champions: [], unmatched: [] });
+  });
+});
+
+describe("mergeImportedChampions", () => {
+  it("replaces the skin list, keeping local chromas and acquisitions", () => {
+    const [ahri, lux] = mergeImportedChampions(LOCAL, IMPORTED);
+
+    expect(ahri.skins.map((s) => [s.num, s.status])).toEqual([
+      [15, "wishlist"],
+      [27, "owned"],
+      [86, "owned"],
+    ]);
+    expect(ahri.skins[0].acquisition).toEqual({ date: "2024-03-02", source: "shop" });
+    expect(ahri.skins[1].chromas).toEqual([
+      { id: "103029", name: "Perle", checked: true },
+      { id: "103028", name: "Ruby", checked: true },
+    ]);
+    expect(lux).toBe(LOCAL[1]);
+  });
+
+  it("unions the skin lists, owned winning", () => {
+    const merged = mergeImportedChampions(LOCAL, IMPORTED, () => "union");
+
+    expect(statusesOf(merged, "champ_ahri")).toEqual([
+      [15, "owned"],
+      [27, "owned"],
+      [1, "owned"],
+      [86, "owned"],
+    ]);
+    expect(merged[0].skins[1].chromas.map((c) => c.checked)).toEqual([true, true]);
+  });
+
+  it("keeps champions set to local as they are", () => {
+    const merged = mergeImportedChampions(LOCAL, IMPORTED, () => "local");
+
+    expect(merged[0]).toBe(LOCAL[0]);
+  });
+
+  it("doesn't add champions the collection doesn't have", () => {
+    const merged = mergeImportedChampions(LOCAL, IMPORTED);
+
+    expect(merged.map((champion) => champion.id)).toEqual(["champ_ahri", "champ_lux"]);
+  });
+
+  it("changes exactly what the diff of the chosen strategy lists", () => {
+    const strategyOf = () => "union" as const;
+    const merged = mergeImportedChampions(LOCAL, IMPORTED, strategyOf);
+
+    expect(diffImport(LOCAL, merged).champions).toEqual([
+      expect.objectContaining({
+        added: ["Ahri Arcana"],
+        removed: [],
+        owned: ["Star Guardian Ahri", "Star Guardian Ahri · Pearl"],
+        unowned: [],
+      }),
+    ]);
+  });
+});
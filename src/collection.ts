@@ -0,0 +1,783 @@
+import type { CatalogChroma } from "./chromas";
+import championSnapshot from "./data/champions.snapshot.json";
+
+export type Chroma = {
+  id: string;
+  name: string;
+  checked: boolean;
+};
+
+/**
+ * Where a skin stands for the player. `unknown` is the default for catalog
+ * skins nobody has looked at; `ignored` skins are left out of completion.
+ */
+export type SkinStatus = "owned" | "wishlist" | "ignored" | "unknown";
+
+export const SKIN_STATUSES: SkinStatus[] = ["owned", "wishlist", "ignored", "unknown"];
+
+export const isSkinStatus = (value: unknown): value is SkinStatus =>
+  SKIN_STATUSES.includes(value as SkinStatus);
+
+export type AcquisitionSource = "shop" | "hextech" | "pass" | "prime" | "gift";
+
+export const ACQUISITION_SOURCES: AcquisitionSource[] = [
+  "shop",
+  "hextech",
+  "pass",
+  "prime",
+  "gift",
+];
+
+export type Currency = "rp" | "essence";
+
+/** How and when a skin was obtained; every field is optional. */
+export type Acquisition = {
+  /** Day the skin was obtained, as `YYYY-MM-DD`. */
+  date?: string;
+  source?: AcquisitionSource;
+  /** RP or essence spent, in `currency`. */
+  cost?: number;
+  currency?: Currency;
+};
+
+export type Skin = {
+  id: string;
+  name: string;
+  status: SkinStatus;
+  chromas: Chroma[];
+  /** Data Dragon skin id (e.g. 103015), stable across locales and renames. */
+  ddragonId?: number;
+  /** Skin number within the champion (`ddragonId` minus 1000 × champion key). */
+  num?: number;
+  /** CommunityDragon rarity (e.g. "kEpic"), for skins the price table doesn't list. */
+  rarity?: string;
+  acquisition?: Acquisition;
+};
+
+export type Champion = {
+  id: string;
+  name: string;
+  skins: Skin[];
+  /** Locale the catalog skin names were last synced in. */
+  skinsLocale?: string;
+  /** Data Dragon champion id (e.g. "MonkeyKing"), stable across locales. */
+  key?: string;
+  /** Added by a roster update and not opened yet. */
+  isNew?: boolean;
+};
+
+export type RosterEntry = {
+  key: string;
+  name: string;
+};
+
+export type CatalogSkin = {
+  ddragonId: number;
+  num: number;
+  name: string;
+  chromas: CatalogChroma[];
+  rarity?: string;
+};
+
+// Fallback roster when the Data Dragon index can't be read.
+const ROSTER_SNAPSHOT: RosterEntry[] = championSnapshot;
+
+export const uid = (): string =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `id_${Math.random().toString(36).slice(2)}_${Date.now()}`;
+
+export const normalize = (value: string): string =>
+  value
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/\p{Diacritic}/gu, "")
+    .replace(/["'`.\-\s]/g, "");
+
+// Lowercase words without accents or punctuation, space-padded so a phrase
+// only matches on word boundaries.
+export const words = (value: string): string =>
+  ` ${value
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/\p{Diacritic}/gu, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()} `;
+
+export const championId = (name: string): string => `champ_${normalize(name)}`;
+
+export const isChromaName = (value: string): boolean =>
+  normalize(value).includes("chroma");
+
+export const baseSkinName = (name: string): string => name.replace(/\s*\([^)]*\)\s*$/, "").trim();
+
+export function groupSkins(skins: Skin[]) {
+  const map = new Map<string, Skin[]>();
+  for (const s of skins) {
+    const base = normalize(baseSkinName(s.name));
+    const arr = map.get(base);
+    if (arr) arr.push(s);
+    else map.set(base, [s]);
+  }
+
+  const groups: { base: string; display: string; variants: Skin[] }[] = [];
+  for (const [base, variants] of map.entries()) {
+    // choose display name: prefer variant without parentheses
+    const displayVariant = variants.find((v) => !/\([^)]*\)/.test(v.name)) || variants[0];
+    groups.push({ base, display: baseSkinName(displayVariant.name), variants });
+  }
+  return groups;
+}
+
+/**
+ * Status shown for a group of variants: owned if any variant is, otherwise
+ * the variants' shared status.
+ */
+export function groupStatus(variants: Pick<Skin, "status">[]): SkinStatus {
+  if (variants.some((v) => v.status === "owned")) return "owned";
+  return variants.every((v) => v.status === variants[0].status)
+    ? variants[0].status
+    : "unknown";
+}
+
+export const skinKey = (skin: Pick<Skin, "name" | "ddragonId">): string =>
+  typeof skin.ddragonId === "number"
+    ? `dd:${skin.ddragonId}`
+    : `name:${normalize(baseSkinName(skin.name))}`;
+
+export function dedupeSkins(skins: Skin[]): Skin[] {
+  const deduped: Skin[] = [];
+  const seen = new Set<string>();
+  for (const s of skins) {
+    const key = skinKey(s);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    deduped.push(s);
+  }
+  return deduped;
+}
+
+/**
+ * Finds the stored skin matching a catalog entry: by Data Dragon id first,
+ * then, for skins saved before ids existed, by base name in the catalog's
+ * locale. Skins already matched are listed in `taken`.
+ */
+function findCatalogMatch(
+  skins: Skin[],
+  catalogSkin: CatalogSkin,
+  taken: Set<string>,
+): Skin | undefined {
+  const free = skins.filter((skin) => !taken.has(skin.id));
+  return (
+    free.find((skin) => skin.ddragonId === catalogSkin.ddragonId) ??
+    free.find(
+      (skin) =>
+        typeof skin.ddragonId !== "number" &&
+        normalize(baseSkinName(skin.name)) === normalize(baseSkinName(catalogSkin.name)),
+    )
+  );
+}
+
+export function mergeSkins(
+  champion: Champion,
+  fetched: CatalogSkin[],
+  locale: string,
+): Champion {
+  const taken = new Set<string>();
+  const merged: Skin[] = [];
+
+  for (const catalogSkin of fetched) {
+    const existing = findCatalogMatch(champion.skins, catalogSkin, taken);
+    if (existing) taken.add(existing.id);
+
+    merged.push({
+      id: existing?.id ?? uid(),
+      name: catalogSkin.name,
+      status: existing?.status ?? "unknown",
+      chromas: mergeChromas(existing?.chromas ?? [], catalogSkin.chromas),
+      ddragonId: catalogSkin.ddragonId,
+      num: catalogSkin.num,
+      rarity: catalogSkin.rarity ?? existing?.rarity,
+      acquisition: existing?.acquisition,
+    });
+  }
+
+  for (const skin of champion.skins) {
+    if (!taken.has(skin.id)) {
+      merged.push(skin);
+    }
+  }
+
+  return { ...champion, skins: merged, skinsLocale: locale };
+}
+
+/**
+ * Brings stored skins in line with the catalog without adding any: name-only
+ * skins get their Data Dragon id, and skins with an id take the catalog's
+ * name in the current locale. Owned state is left untouched.
+ */
+export function syncCatalogSkins(
+  champion: Champion,
+  fetched: CatalogSkin[],
+  locale: string,
+): Champion {
+  const taken = new Set<string>();
+  const matches = new Map<string, CatalogSkin>();
+
+  for (const catalogSkin of fetched) {
+    const existing = findCatalogMatch(champion.skins, catalogSkin, taken);
+    if (!existing) continue;
+    taken.add(existing.id);
+    matches.set(existing.id, catalogSkin);
+  }
+
+  return {
+    ...champion,
+    skinsLocale: locale,
+    skins: dedupeSkins(
+      champion.skins.map((skin) => {
+        const catalogSkin = matches.get(skin.id);
+        if (!catalogSkin) return skin;
+
+        return {
+          ...skin,
+          name: catalogSkin.name,
+          ddragonId: catalogSkin.ddragonId,
+          num: catalogSkin.num,
+          rarity: catalogSkin.rarity ?? skin.rarity,
+          chromas: skin.chromas.map((chroma) => ({
+            ...chroma,
+            name: catalogSkin.chromas.find((c) => c.id === chroma.id)?.name ?? chroma.name,
+          })),
+        };
+      }),
+    ),
+  };
+}
+
+/**
+ * Finds the champion the game names, by Data Dragon id when it gives one or
+ * else by name, either as stored or as displayed (`labelOf`).
+ */
+export function findGameChampion(
+  champions: Champion[],
+  player: { championKey: string | null; championName: string },
+  labelOf: (champion: Champion) => string,
+): Champion | undefined {
+  const name = normalize(player.championName);
+  return champions.find(
+    (candidate) =>
+      (player.championKey !== null && candidate.key === player.championKey) ||
+      normalize(candidate.name) === name ||
+      normalize(labelOf(candidate)) === name,
+  );
+}
+
+/**
+ * Finds the skin a game skin number refers to. Chromas have their own number
+ * in game, so a number that isn't a skin's is looked up among the chromas,
+ * whose ids are Data Dragon style (`1000 × champion key + number`).
+ */
+export function findGameSkin(
+  champion: Champion,
+  skinNum: number,
+): { skin: Skin; chromaId?: string } | null {
+  const bySkin = champion.skins.find((skin) => skin.num === skinNum);
+  if (bySkin) return { skin: bySkin };
+
+  const withId = champion.skins.find((skin) => typeof skin.ddragonId === "number");
+  if (!withId?.ddragonId) return null;
+
+  const chromaId = String(Math.floor(withId.ddragonId / 1000) * 1000 + skinNum);
+  const parent = champion.skins.find((skin) =>
+    skin.chromas.some((chroma) => chroma.id === chromaId),
+  );
+  return parent ? { skin: parent, chromaId } : null;
+}
+
+// Skins synced before rarities were read get theirs on the next sync.
+export const needsCatalogSync = (champion: Champion, locale: string): boolean =>
+  champion.skins.length > 0 &&
+  (champion.skinsLocale !== locale ||
+    champion.skins.some(
+      (skin) => typeof skin.ddragonId !== "number" || skin.rarity === undefined,
+    ));
+
+const optionalNumber = (value: unknown): number | undefined =>
+  typeof value === "number" && Number.isInteger(value) ? value : undefined;
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === "string" && value ? value : undefined;
+
+function mergeChromas(existing: Chroma[], catalog: CatalogChroma[]): Chroma[] {
+  const merged: Chroma[] = catalog.map((chroma) => {
+    const match = existing.find(
+      (c) => c.id === chroma.id || normalize(c.name) === normalize(chroma.name),
+    );
+    return { id: chroma.id, name: chroma.name, checked: match?.checked ?? false };
+  });
+
+  for (const chroma of existing) {
+    if (!merged.some((c) => c.id === chroma.id || normalize(c.name) === normalize(chroma.name))) {
+      merged.push(chroma);
+    }
+  }
+
+  return merged;
+}
+
+/** Keeps the readable fields of a stored acquisition; `undefined` if none are. */
+export function sanitizeAcquisition(input: unknown): Acquisition | undefined {
+  if (!input || typeof input !== "object") {
+    return undefined;
+  }
+
+  const candidate = input as Partial<Acquisition>;
+  const acquisition: Acquisition = {
+    date:
+      typeof candidate.date === "string" && /^\d{4}-\d{2}-\d{2}$/.test(candidate.date)
+        ? candidate.date
+        : undefined,
+    source: ACQUISITION_SOURCES.includes(candidate.source as AcquisitionSource)
+      ? candidate.source
+      : undefined,
+    cost:
+      typeof candidate.cost === "number" && Number.isFinite(candidate.cost) && candidate.cost >= 0
+        ? candidate.cost
+        : undefined,
+    currency:
+      candidate.currency === "rp" || candidate.currency === "essence"
+        ? candidate.currency
+        : undefined,
+  };
+
+  return Object.values(acquisition).some((value) => value !== undefined)
+    ? acquisition
+    : undefined;
+}
+
+function sanitizeChromas(input: unknown): Chroma[] {
+  if (!Array.isArray(input)) {
+    return [];
+  }
+
+  return input
+    .filter((chroma) => chroma && typeof chroma === "object")
+    .map((chroma) => {
+      const typedChroma = chroma as Partial<Chroma>;
+      return {
+        id:
+          typeof typedChroma.id === "string" && typedChroma.id.trim()
+            ? typedChroma.id
+            : uid(),
+        name: typeof typedChroma.name === "string" ? typedChroma.name : "",
+        checked: Boolean(typedChroma.checked),
+      };
+    })
+    .filter((chroma) => chroma.name.trim().length > 0);
+}
+
+// Older saves could hold chromas as standalone skins ("... Chroma"); move them
+// under the skin whose base name they start with.
+function attachChromaSkins(skins: Skin[]): Skin[] {
+  const parents = skins.filter((skin) => !isChromaName(skin.name));
+
+  for (const skin of skins) {
+    if (!isChromaName(skin.name)) continue;
+
+    const parent = parents.find((p) =>
+      normalize(skin.name).startsWith(normalize(baseSkinName(p.name))),
+    );
+    if (parent && !parent.chromas.some((c) => normalize(c.name) === normalize(skin.name))) {
+      parent.chromas.push({ id: skin.id, name: skin.name, checked: skin.status === "owned" });
+    }
+  }
+
+  return parents;
+}
+
+export const sortChampions = (champions: Champion[]): Champion[] =>
+  [...champions].sort((a, b) => a.name.localeCompare(b.name));
+
+export function createDefaultChampions(): Champion[] {
+  return sortChampions(
+    ROSTER_SNAPSHOT.map(({ key, name }) => ({
+      id: championId(name),
+      name,
+      key,
+      skins: [],
+    })),
+  );
+}
+
+/**
+ * Lines the collection up with a roster: stored champions are matched by key,
+ * then by name, and new roster entries are added (flagged `isNew` unless the
+ * collection was empty). Stored champions matching nothing lose their key and
+ * are kept for reconciliation when they hold skins. Against the bundled
+ * snapshot, unmatched champions that carry a key came from a newer catalog and
+ * are kept as they are.
+ */
+export function reconcileRoster(
+  champions: Champion[],
+  roster: RosterEntry[],
+  fromCatalog: boolean,
+): Champion[] {
+  const byKey = new Map(
+    champions.filter((c) => c.key).map((c) => [c.key as string, c] as const),
+  );
+  const byName = new Map(champions.map((c) => [normalize(c.name), c] as const));
+  const used = new Set<string>();
+  const hasCollection = champions.length > 0;
+
+  const reconciled = roster.map((entry): Champion => {
+    const existing =
+      byKey.get(entry.key) ??
+      byName.get(normalize(entry.name)) ??
+      byName.get(normalize(entry.key));
+
+    if (existing && !used.has(existing.id)) {
+      used.add(existing.id);
+      return existing.key === entry.key ? existing : { ...existing, key: entry.key };
+    }
+
+    return {
+      id: championId(entry.name),
+      name: entry.name,
+      key: entry.key,
+      skins: [],
+      isNew: hasCollection || undefined,
+    };
+  });
+
+  for (const champion of champions) {
+    if (used.has(champion.id)) continue;
+
+    if (!fromCatalog && champion.key) {
+      reconciled.push(champion);
+    } else if (champion.skins.length > 0) {
+      reconciled.push({ ...champion, key: undefined });
+    }
+  }
+
+  return sortChampions(reconciled);
+}
+
+/**
+ * Status of a skin known on both sides of a merge: owned wins, otherwise the
+ * local status stands unless nobody had set one.
+ */
+const combineStatus = (local: SkinStatus, incoming: SkinStatus): SkinStatus =>
+  local === "owned" || incoming === "owned"
+    ? "owned"
+    : local === "unknown"
+      ? incoming
+      : local;
+
+/** Moves an unmatched champion's skins into a roster champion. */
+export function mergeChampionInto(target: Champion, orphan: Champion): Champion {
+  const skins = [...target.skins];
+
+  for (const skin of orphan.skins) {
+    const index = skins.findIndex((s) => skinKey(s) === skinKey(skin));
+    if (index === -1) {
+      skins.push(skin);
+    } else {
+      skins[index] = {
+        ...skins[index],
+        status: combineStatus(skins[index].status, skin.status),
+      };
+    }
+  }
+
+  return { ...target, skins };
+}
+
+export type SanitizeReport = {
+  /** Champion or skin entries that couldn't be read and were left out. */
+  dropped: number;
+};
+
+export function sanitizeChampions(
+  input: unknown,
+  report: SanitizeReport = { dropped: 0 },
+): Champion[] {
+  if (!Array.isArray(input)) {
+    return createDefaultChampions();
+  }
+
+  const byName = new Map<string, Champion>();
+
+  for (const item of input) {
+    const candidate = item as Partial<Champion> | null;
+    if (!candidate || typeof candidate !== "object" || typeof candidate.name !== "string") {
+      report.dropped += 1;
+      continue;
+    }
+
+    const rawSkins = Array.isArray(candidate.skins) ? candidate.skins : [];
+    const skins = Array.isArray(candidate.skins)
+      ? candidate.skins
+          .filter((skin) => skin && typeof skin === "object")
+          .map((skin) => {
+            const typedSkin = skin as Partial<Skin>;
+            return {
+              id:
+                typeof typedSkin.id === "string" && typedSkin.id.trim()
+                  ? typedSkin.id
+                  : uid(),
+              name: typeof typedSkin.name === "string" ? typedSkin.name : "",
+              status: isSkinStatus(typedSkin.status) ? typedSkin.status : "unknown",
+              chromas: sanitizeChromas(typedSkin.chromas),
+              ddragonId: optionalNumber(typedSkin.ddragonId),
+              num: optionalNumber(typedSkin.num),
+              rarity: optionalString(typedSkin.rarity),
+              acquisition: sanitizeAcquisition(typedSkin.acquisition),
+            };
+          })
+          .filter((skin) => skin.name.trim().length > 0)
+      : [];
+    report.dropped += rawSkins.length - skins.length;
+
+    const dedupedSkins = dedupeSkins(attachChromaSkins(skins));
+
+    byName.set(candidate.name, {
+      id:
+        typeof candidate.id === "string" && candidate.id.trim()
+          ? candidate.id
+          : championId(candidate.name),
+      name: candidate.name,
+      skins: dedupedSkins,
+      skinsLocale:
+        typeof candidate.skinsLocale === "string" ? candidate.skinsLocale : undefined,
+      key: typeof candidate.key === "string" ? candidate.key : undefined,
+      isNew: candidate.isNew === true || undefined,
+    });
+  }
+
+  return reconcileRoster([...byName.values()], ROSTER_SNAPSHOT, false);
+}
+
+/** How an imported champion is combined with the local one. */
+export type ImportStrategy = "replace" | "union" | "local";
+
+/** What importing a champion would change, listed by skin (and chroma) name. */
+export type ChampionImportDiff = {
+  championId: string;
+  name: string;
+  added: string[];
+  removed: string[];
+  owned: string[];
+  unowned: string[];
+  /** Status changes that don't touch ownership (e.g. unknown → wishlist). */
+  restatus: { name: string; from: SkinStatus; to: SkinStatus }[];
+};
+
+export type ImportDiff = {
+  champions: ChampionImportDiff[];
+  /** Imported champions with skins that match no local champion. */
+  unmatched: string[];
+};
+
+// Local champion id -> imported champion, matched by key first, then by name.
+function matchImported(
+  current: Champion[],
+  imported: Champion[],
+): Map<string, Champion> {
+  const importedByName = new Map(
+    imported.map((champion) => [champion.name, champion] as const),
+  );
+  const importedByKey = new Map(
+    imported
+      .filter((champion) => champion.key)
+      .map((champion) => [champion.key as string, champion] as const),
+  );
+
+  const matches = new Map<string, Champion>();
+  for (const champion of current) {
+    const incoming =
+      (champion.key ? importedByKey.get(champion.key) : undefined) ??
+      importedByName.get(champion.name);
+    if (incoming) {
+      matches.set(champion.id, incoming);
+    }
+  }
+  return matches;
+}
+
+function importedSkins(incoming: Champion): Skin[] {
+  return dedupeSkins(
+    incoming.skins
+      .filter(
+        (skin) => skin && typeof skin.name === "string" && skin.name.trim().length > 0,
+      )
+      .map((skin) => ({
+        id: typeof skin.id === "string" && skin.id.trim() ? skin.id : uid(),
+        name: skin.name,
+        status: isSkinStatus(skin.status) ? skin.status : "unknown",
+        chromas: sanitizeChromas(skin.chromas),
+        ddragonId: optionalNumber(skin.ddragonId),
+        num: optionalNumber(skin.num),
+        rarity: optionalString(skin.rarity),
+        acquisition: sanitizeAcquisition(skin.acquisition),
+      })),
+  );
+}
+
+function unionSkins(local: Skin[], incoming: Skin[]): Skin[] {
+  const skins = [...local];
+
+  for (const skin of incoming) {
+    const index = skins.findIndex((s) => skinKey(s) === skinKey(skin));
+    if (index === -1) {
+      skins.push(skin);
+      continue;
+    }
+
+    const existing = skins[index];
+    const chromas = existing.chromas.map((chroma) => {
+      const match = skin.chromas.find((c) => c.id === chroma.id);
+      return match?.checked && !chroma.checked ? { ...chroma, checked: true } : chroma;
+    });
+    for (const chroma of skin.chromas) {
+      if (!chromas.some((c) => c.id === chroma.id)) {
+        chromas.push(chroma);
+      }
+    }
+
+    skins[index] = {
+      ...existing,
+      status: combineStatus(existing.status, skin.status),
+      chromas,
+      acquisition: existing.acquisition ?? skin.acquisition,
+    };
+  }
+
+  return skins;
+}
+
+// Sources that don't carry chromas or acquisitions (share links, sheets
+// without those columns) must not wipe the local ones: a chroma the incoming
+// skin doesn't list, and a missing acquisition, keep their local state.
+function keepLocalDetails(local: Skin[], incoming: Skin[]): Skin[] {
+  const localByKey = new Map(local.map((skin) => [skinKey(skin), skin] as const));
+
+  return incoming.map((skin) => {
+    const existing = localByKey.get(skinKey(skin));
+    if (!existing) {
+      return skin;
+    }
+
+    return {
+      ...skin,
+      chromas: [
+        ...skin.chromas,
+        ...existing.chromas.filter(
+          (chroma) => !skin.chromas.some((c) => c.id === chroma.id),
+        ),
+      ],
+      acquisition: skin.acquisition ?? existing.acquisition,
+    };
+  });
+}
+
+/** Lists, per local champion, what the imported collection differs on. */
+export function diffImport(current: Champion[], imported: Champion[]): ImportDiff {
+  const matches = matchImported(current, imported);
+  const matched = new Set(matches.values());
+  const champions: ChampionImportDiff[] = [];
+
+  for (const champion of current) {
+    const incoming = matches.get(champion.id);
+    if (!incoming) {
+      continue;
+    }
+
+    const incomingSkins = importedSkins(incoming);
+    const localByKey = new Map(champion.skins.map((skin) => [skinKey(skin), skin] as const));
+    const incomingKeys = new Set(incomingSkins.map(skinKey));
+    const diff: ChampionImportDiff = {
+      championId: champion.id,
+      name: champion.name,
+      added: [],
+      removed: champion.skins
+        .filter((skin) => !incomingKeys.has(skinKey(skin)))
+        .map((skin) => skin.name),
+      owned: [],
+      unowned: [],
+      restatus: [],
+    };
+
+    for (const skin of incomingSkins) {
+      const local = localByKey.get(skinKey(skin));
+      if (!local) {
+        diff.added.push(skin.name);
+        continue;
+      }
+
+      if (skin.status === "owned" && local.status !== "owned") {
+        diff.owned.push(local.name);
+      } else if (local.status === "owned" && skin.status !== "owned") {
+        diff.unowned.push(local.name);
+      } else if (skin.status !== local.status) {
+        diff.restatus.push({ name: local.name, from: local.status, to: skin.status });
+      }
+      for (const chroma of skin.chromas) {
+        const localChroma = local.chromas.find((c) => c.id === chroma.id);
+        if (localChroma && localChroma.checked !== chroma.checked) {
+          (chroma.checked ? diff.owned : diff.unowned).push(
+            `${local.name} · ${localChroma.name}`,
+          );
+        }
+      }
+    }
+
+    if (
+      diff.added.length +
+        diff.removed.length +
+        diff.owned.length +
+        diff.unowned.length +
+        diff.restatus.length >
+      0
+    ) {
+      champions.push(diff);
+    }
+  }
+
+  return {
+    champions,
+    unmatched: imported
+      .filter((champion) => !matched.has(champion) && champion.skins.length > 0)
+      .map((champion) => champion.name),
+  };
+}
+
+/**
+ * Applies an imported collection to the local one. `strategyOf` picks, per
+ * local champion, whether the imported skin list replaces the local one, is
+ * unioned with it (owned wins), or is ignored. Replacing keeps the chromas and
+ * acquisitions the imported skins don't carry.
+ */
+export function mergeImportedChampions(
+  current: Champion[],
+  imported: Champion[],
+  strategyOf: (championId: string) => ImportStrategy = () => "replace",
+): Champion[] {
+  const matches = matchImported(current, imported);
+
+  return current.map((champion) => {
+    const incoming = matches.get(champion.id);
+    const strategy = strategyOf(champion.id);
+    if (!incoming || !Array.isArray(incoming.skins) || strategy === "local") {
+      return champion;
+    }
+
+    return strategy === "union"
+      ? { ...champion, skins: unionSkins(champion.skins, importedSkins(incoming)) }
+      : {
+          ...champion,
+          skinsLocale: incoming.skinsLocale,
+          skins: keepLocalDetails(champion.skins, importedSkins(incoming)),
+        };
+  });
+}
@@ -0,0 +1,175 @@
+import {
+  catalogCacheKey,
+  evictOtherVersions,
+  readCachedCatalog,
+  readCachedVersion,
+  writeCachedCatalog,
+} from "./ddragonCache";
+
+export type DDragonChampionIndex = {
+  /**
+   * `key` is the numeric champion key (e.g. "103"); `tags` are the champion's
+   * roles, main role first (e.g. "Mage").
+   */
+  data: Record<string, { id: string; key?: string; name: string; tags?: string[] }>;
+};
+
+export type DDragonChampionDetail = {
+  data: Record<
+    string,
+    {
+      id: string;
+      key: string;
+      name: string;
+      skins: { id: string; num: number; name: string; chromas: boolean }[];
+    }
+  >;
+};
+
+/**
+ * Where the catalog JSON comes from:
+ * - `cdn`: the official Data Dragon CDN;
+ * - `mirror`: a self-hosted copy with the same layout as the CDN
+ *   (`/api/versions.json`, `/cdn/<version>/data/...`);
+ * - `local`: an extracted `dragontail` tarball served by the app
+ *   (`<version>/data/...`). A dragontail has no `versions.json`, so the
+ *   version comes from the config, or from a `versions.json` dropped at the
+ *   root of the directory.
+ */
+export type DDragonSource =
+  | { kind: "cdn"; baseUrl: string }
+  | { kind: "mirror"; baseUrl: string }
+  | { kind: "local"; baseUrl: string; version: string | null };
+
+export const DDRAGON_CDN_URL = "https://ddragon.leagueoflegends.com";
+const DDRAGON_LOCAL_URL = "/ddragon";
+
+const trimSlashes = (value: string): string => value.replace(/\/+$/, "");
+
+export function resolveDdragonSource(
+  env: ImportMetaEnv = import.meta.env,
+): DDragonSource {
+  const kind = env.VITE_DDRAGON_SOURCE?.trim().toLowerCase();
+  const url = env.VITE_DDRAGON_URL?.trim();
+  const version = env.VITE_DDRAGON_VERSION?.trim();
+
+  if (kind === "mirror" && url) {
+    return { kind: "mirror", baseUrl: trimSlashes(url) };
+  }
+
+  if (kind === "local") {
+    return {
+      kind: "local",
+      baseUrl: trimSlashes(url || DDRAGON_LOCAL_URL),
+      version: version || null,
+    };
+  }
+
+  return { kind: "cdn", baseUrl: DDRAGON_CDN_URL };
+}
+
+function versionsUrl(source: DDragonSource): string {
+  return source.kind === "local"
+    ? `${source.baseUrl}/versions.json`
+    : `${source.baseUrl}/api/versions.json`;
+}
+
+function dataUrl(
+  source: DDragonSource,
+  version: string,
+  locale: string,
+  path: string,
+): string {
+  const root =
+    source.kind === "local" ? source.baseUrl : `${source.baseUrl}/cdn`;
+  return `${root}/${version}/data/${locale}/${path}`;
+}
+
+async function fetchJson<T>(url: string): Promise<T | null> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      return null;
+    }
+
+    return (await response.json()) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads a catalog file through the IndexedDB cache. Entries are keyed by
+ * version, so a hit never needs revalidation.
+ */
+async function fetchCatalogJson<T>(
+  source: DDragonSource,
+  version: string,
+  locale: string,
+  path: string,
+): Promise<T | null> {
+  const key = catalogCacheKey(version, locale, path);
+  const cached = await readCachedCatalog<T>(version, key);
+  if (cached) {
+    return cached;
+  }
+
+  const fetched = await fetchJson<T>(dataUrl(source, version, locale, path));
+  if (fetched) {
+    await writeCachedCatalog(version, key, fetched);
+  }
+
+  return fetched;
+}
+
+/**
+ * Resolves the current patch. A newer patch evicts the cached catalog; when
+ * the source is unreachable, the last cached patch is used so the app keeps
+ * working offline.
+ */
+export async function fetchDdragonLatestVersion(
+  source: DDragonSource,
+): Promise<string | null> {
+  let latest: string | null = null;
+
+  if (source.kind === "local" && source.version) {
+    latest = source.version;
+  } else {
+    const versions = await fetchJson<string[]>(versionsUrl(source));
+    latest = Array.isArray(versions) && versions.length > 0 ? versions[0] : null;
+  }
+
+  if (!latest) {
+    return readCachedVersion();
+  }
+
+  await evictOtherVersions(latest);
+  return latest;
+}
+
+export function fetchChampionIndex(
+  source: DDragonSource,
+  version: string,
+  locale: string,
+): Promise<DDragonChampionIndex | null> {
+  return fetchCatalogJson<DDragonChampionIndex>(
+    source,
+    version,
+    locale,
+    "champion.json",
+  );
+}
+
+export function fetchChampionDetail(
+  source: DDragonSource,
+  version: string,
+  locale: string,
+  key: string,
+): Promise<DDragonChampionDetail | null> {
+  return fetchCatalogJson<DDragonChampionDetail>(
+    source,
+    version,
+    locale,
+    `champion/${key}.json`,
+  );
+}
@@ -0,0 +1,140 @@
+const DB_NAME = "lol-skins-tracker:ddragon";
+const DB_VERSION = 1;
+const CATALOG_STORE = "catalog";
+const META_STORE = "meta";
+const VERSION_KEY = "version";
+
+type CatalogEntry = {
+  version: string;
+  value: unknown;
+};
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (dbPromise) {
+    return dbPromise;
+  }
+
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === "undefined") {
+      resolve(null);
+      return;
+    }
+
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CATALOG_STORE)) {
+          db.createObjectStore(CATALOG_STORE);
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      // private browsing or blocked storage: run without cache
+      request.onerror = () => resolve(null);
+      request.onblocked = () => resolve(null);
+    } catch {
+      resolve(null);
+    }
+  });
+
+  return dbPromise;
+}
+
+async function withStore<T>(
+  name: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => Promise<T>,
+): Promise<T | null> {
+  const db = await openDatabase();
+  if (!db) {
+    return null;
+  }
+
+  try {
+    return await run(db.transaction(name, mode).objectStore(name));
+  } catch {
+    return null;
+  }
+}
+
+export const catalogCacheKey = (
+  version: string,
+  locale: string,
+  path: string,
+): string => `${version}/${locale}/${path}`;
+
+export async function readCachedCatalog<T>(
+  version: string,
+  key: string,
+): Promise<T | null> {
+  const entry = await withStore(CATALOG_STORE, "readonly", (store) =>
+    requestToPromise(store.get(key) as IDBRequest<CatalogEntry | undefined>),
+  );
+
+  return entry && entry.version === version ? (entry.value as T) : null;
+}
+
+export async function writeCachedCatalog(
+  version: string,
+  key: string,
+  value: unknown,
+): Promise<void> {
+  const entry: CatalogEntry = { version, value };
+  await withStore(CATALOG_STORE, "readwrite", (store) =>
+    requestToPromise(store.put(entry, key)),
+  );
+}
+
+export async function readCachedVersion(): Promise<string | null> {
+  const version = await withStore(META_STORE, "readonly", (store) =>
+    requestToPromise(store.get(VERSION_KEY) as IDBRequest<unknown>),
+  );
+
+  return typeof version === "string" ? version : null;
+}
+
+/**
+ * Records the current patch and drops every catalog entry stored for another
+ * one. Called whenever the version endpoint answers, so a new patch empties
+ * the cache once and the next prefill refills it.
+ */
+export async function evictOtherVersions(version: string): Promise<void> {
+  if ((await readCachedVersion()) === version) {
+    return;
+  }
+
+  await withStore(CATALOG_STORE, "readwrite", (store) =>
+    new Promise<void>((resolve, reject) => {
+      const request = store.openCursor();
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve();
+          return;
+        }
+
+        if ((cursor.value as CatalogEntry).version !== version) {
+          cursor.delete();
+        }
+        cursor.continue();
+      };
+    }),
+  );
+
+  await withStore(META_STORE, "readwrite", (store) =>
+    requestToPromise(store.put(version, VERSION_KEY)),
+  );
+}
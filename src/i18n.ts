@@ -0,0 +1,55 @@
+import { createContext, useContext } from "react";
+import { en } from "./locales/en";
+import { fr, type Messages } from "./locales/fr";
+
+/** Data Dragon locale codes; they double as UI language codes. */
+export type Locale = "fr_FR" | "en_US";
+
+export const LOCALES: { value: Locale; label: string }[] = [
+  { value: "fr_FR", label: "Français" },
+  { value: "en_US", label: "English" },
+];
+
+const MESSAGES: Record<Locale, Messages> = {
+  fr_FR: fr,
+  en_US: en,
+};
+
+const LOCALE_STORAGE_KEY = "lol-skins-tracker:locale";
+const DEFAULT_LOCALE: Locale = "fr_FR";
+
+const isLocale = (value: unknown): value is Locale =>
+  LOCALES.some((locale) => locale.value === value);
+
+export function loadLocale(): Locale {
+  if (typeof window === "undefined") {
+    return DEFAULT_LOCALE;
+  }
+
+  const stored = window.localStorage.getItem(LOCALE_STORAGE_KEY);
+  return isLocale(stored) ? stored : DEFAULT_LOCALE;
+}
+
+export function saveLocale(locale: Locale): void {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  window.localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+}
+
+export type I18n = {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Messages;
+};
+
+export const I18nContext = createContext<I18n>({
+  locale: DEFAULT_LOCALE,
+  setLocale: () => {},
+  t: MESSAGES[DEFAULT_LOCALE],
+});
+
+export const messagesFor = (locale: Locale): Messages => MESSAGES[locale];
+
+export const useI18n = (): I18n => useContext(I18nContext);
@@ -0,0 +1,172 @@
+import type { Champion, Skin } from "./collection";
+
+/**
+ * The League Client (LCU) API needs the port and password from the client's
+ * lockfile, which a browser can't read. `scripts/lcu-companion.mjs` reads it
+ * and forwards a few read-only endpoints; Vite proxies it under `/riot-lcu`.
+ */
+const LCU_URL = (import.meta.env.VITE_LCU_URL?.trim() || "/riot-lcu").replace(/\/+$/, "");
+
+/**
+ * - `companion`: the companion isn't running;
+ * - `client`: the companion runs but the League Client doesn't;
+ * - `auth`: the client refused the lockfile's password (stale lockfile);
+ * - `unexpected`: anything else, e.g. an endpoint answering with an error.
+ */
+export type LcuErrorCode = "companion" | "client" | "auth" | "unexpected";
+
+export class LcuError extends Error {
+  code: LcuErrorCode;
+
+  constructor(code: LcuErrorCode, message: string) {
+    super(message);
+    this.name = "LcuError";
+    this.code = code;
+  }
+}
+
+export type LcuSummoner = {
+  gameName?: string;
+  tagLine?: string;
+  displayName?: string;
+};
+
+export type LcuInventoryItem = {
+  /** Skin or chroma id, `1000 × champion key + number`. */
+  itemId: number;
+  /** e.g. "20231104T181502.000Z" */
+  purchaseDate?: string;
+  ownershipType?: string;
+};
+
+export type LcuInventory = {
+  summoner: LcuSummoner;
+  /** Owned skins and chromas; rentals and base skins are left out. */
+  items: LcuInventoryItem[];
+};
+
+async function fetchLcu<T>(path: string): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(`${LCU_URL}${path}`);
+  } catch (error) {
+    throw new LcuError("companion", error instanceof Error ? error.message : String(error));
+  }
+
+  const body = (await response.json().catch(() => null)) as unknown;
+  if (response.ok) {
+    return body as T;
+  }
+
+  // the companion reports client-side failures as { error: "client" | "auth" }
+  const code = (body as { error?: unknown } | null)?.error;
+  if (code === "client" || code === "auth") {
+    throw new LcuError(code, `${path}: ${response.status}`);
+  }
+  throw new LcuError(
+    body === null && response.status >= 500 ? "companion" : "unexpected",
+    `${path}: ${response.status}`,
+  );
+}
+
+export async function fetchLcuInventory(): Promise<LcuInventory> {
+  const [summoner, items] = await Promise.all([
+    fetchLcu<LcuSummoner>("/lol-summoner/v1/current-summoner"),
+    fetchLcu<LcuInventoryItem[]>("/lol-inventory/v2/inventory/CHAMPION_SKIN"),
+  ]);
+  if (!Array.isArray(items)) {
+    throw new LcuError("unexpected", "inventory: not a list");
+  }
+
+  return {
+    summoner: summoner ?? {},
+    items: items.filter(
+      (item) =>
+        typeof item?.itemId === "number" &&
+        item.itemId % 1000 !== 0 &&
+        (item.ownershipType ?? "OWNED") === "OWNED",
+    ),
+  };
+}
+
+/** Champion keys (e.g. 103 for Ahri) with inventory items not in `champions`. */
+export function missingChampionKeys(champions: Champion[], inventory: LcuInventory): number[] {
+  const known = new Set(
+    champions.flatMap((champion) =>
+      champion.skins.flatMap((skin) => [
+        skin.ddragonId,
+        ...skin.chromas.map((chroma) => Number(chroma.id)),
+      ]),
+    ),
+  );
+
+  return [
+    ...new Set(
+      inventory.items
+        .filter((item) => !known.has(item.itemId))
+        .map((item) => Math.floor(item.itemId / 1000)),
+    ),
+  ];
+}
+
+// "20231104T181502.000Z" -> "2023-11-04"
+const purchaseDay = (value: string | undefined): string | undefined => {
+  const parts = value?.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  return parts ? `${parts[1]}-${parts[2]}-${parts[3]}` : undefined;
+};
+
+/**
+ * The collection as the inventory sees it: skins and chromas with a Data
+ * Dragon id are owned exactly when the inventory lists them, and owned skins
+ * get their purchase day unless one is recorded. Skins and chromas added by
+ * hand are left alone. Returns the champions to preview as an import, and how many items
+ * matched nothing.
+ */
+export function applyInventory(
+  champions: Champion[],
+  inventory: LcuInventory,
+): { champions: Champion[]; unmatched: number } {
+  const owned = new Map(inventory.items.map((item) => [item.itemId, item] as const));
+  const matched = new Set<number>();
+
+  const applySkin = (skin: Skin): Skin => {
+    if (typeof skin.ddragonId !== "number") {
+      return skin;
+    }
+
+    const chromas = skin.chromas.map((chroma) => {
+      // chromas added by hand have generated ids, not catalog numbers
+      if (!/^\d+$/.test(chroma.id)) {
+        return chroma;
+      }
+      const checked = owned.has(Number(chroma.id));
+      if (checked) matched.add(Number(chroma.id));
+      return checked === chroma.checked ? chroma : { ...chroma, checked };
+    });
+
+    const item = owned.get(skin.ddragonId);
+    if (!item) {
+      return { ...skin, chromas, status: skin.status === "owned" ? "unknown" : skin.status };
+    }
+
+    matched.add(item.itemId);
+    const date = purchaseDay(item.purchaseDate);
+    return {
+      ...skin,
+      chromas,
+      status: "owned",
+      acquisition:
+        date && !skin.acquisition?.date ? { ...skin.acquisition, date } : skin.acquisition,
+    };
+  };
+
+  const result = champions.map((champion) => ({
+    ...champion,
+    skins: champion.skins.map(applySkin),
+  }));
+
+  return {
+    champions: result,
+    unmatched: inventory.items.filter((item) => !matched.has(item.itemId)).length,
+  };
+}
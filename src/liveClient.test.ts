@@ -0,0 +1,161 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import session from "../scripts/fixtures/live/ranked-ahri-win.json";
+import {
+  fetchActivePlayer,
+  fetchAllGameData,
+  fetchEventData,
+  fetchGameStats,
+  fetchPlayerItems,
+  fetchPlayerList,
+  fetchPlayerScores,
+  LiveClientError,
+  riotIdOf,
+} from "./liveClient";
+
+// The session lists item ids; the game sends them in full, as the mock does.
+const items = session.items as Record<string, object>;
+const playerList = session.allPlayers.map((player) => ({
+  ...player,
+  items: player.items.map((itemID, slot) => ({ itemID, slot, count: 1, ...items[itemID] })),
+}));
+const self = playerList[0];
+
+const RESPONSES: Record<string, unknown> = {
+  allgamedata: {
+    activePlayer: session.activePlayer,
+    allPlayers: playerList,
+    events: { Events: session.events },
+    gameData: session.gameData,
+  },
+  activeplayer: session.activePlayer,
+  playerlist: playerList,
+  playerscores: self.scores,
+  playeritems: self.items,
+  eventdata: { Events: session.events },
+  gamestats: session.gameData,
+};
+
+/** Answers every endpoint from the session, except those in `overrides`. */
+function stubFetch(overrides: Record<string, () => Response | Promise<Response>> = {}) {
+  const fetch = vi.fn(async (url: string) => {
+    const endpoint = url.replace(/^.*\/liveclientdata\//, "").split("?")[0];
+    const override = overrides[endpoint];
+    if (override) return override();
+    return endpoint in RESPONSES
+      ? Response.json(RESPONSES[endpoint])
+      : new Response(null, { status: 404 });
+  });
+  vi.stubGlobal("fetch", fetch);
+  return fetch;
+}
+
+const notFound = () =>
+  Response.json({ errorCode: "RESOURCE_NOT_FOUND", httpStatus: 404 }, { status: 404 });
+
+async function errorCode(request: Promise<unknown>) {
+  const error = await request.then(
+    () => null,
+    (reason: unknown) => reason,
+  );
+  expect(error).toBeInstanceOf(LiveClientError);
+  return (error as LiveClientError).code;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("Live Client endpoints", () => {
+  it("return the recorded responses", async () => {
+    stubFetch();
+
+    await expect(fetchGameStats()).resolves.toMatchObject({ gameMode: "CLASSIC" });
+    await expect(fetchActivePlayer()).resolves.toMatchObject({ riotId: "Mock Summoner#EUW" });
+    await expect(fetchPlayerList()).resolves.toHaveLength(10);
+    await expect(fetchEventData()).resolves.toHaveProperty("Events");
+    await expect(fetchAllGameData()).resolves.toHaveProperty("allPlayers");
+    await expect(fetchPlayerScores("Mock Summoner#EUW")).resolves.toEqual(self.scores);
+    await expect(fetchPlayerItems("Mock Summoner#EUW")).resolves.toEqual(self.items);
+  });
+
+  it("pass the Riot ID as a query parameter", async () => {
+    const fetch = stubFetch();
+
+    await fetchPlayerScores("Mock Summoner#EUW");
+
+    expect(fetch).toHaveBeenCalledWith(
+      expect.stringMatching(/\/playerscores\?riotId=Mock%20Summoner%23EUW$/),
+    );
+  });
+});
+
+describe("Live Client errors", () => {
+  it("report no game when gamestats answers 404", async () => {
+    stubFetch({ gamestats: notFound });
+
+    expect(await errorCode(fetchGameStats())).toBe("noGame");
+  });
+
+  it("report the loading screen when another endpoint answers 404", async () => {
+    stubFetch({ activeplayer: notFound, playerlist: notFound, eventdata: notFound });
+
+    expect(await errorCode(fetchActivePlayer())).toBe("loading");
+    expect(await errorCode(fetchPlayerList())).toBe("loading");
+    expect(await errorCode(fetchEventData())).toBe("loading");
+  });
+
+  it("report the game as not running on an empty 5xx from the proxy", async () => {
+    stubFetch({ gamestats: () => new Response(null, { status: 500 }) });
+
+    expect(await errorCode(fetchGameStats())).toBe("notRunning");
+  });
+
+  it("report the game as not running when the request fails", async () => {
+    stubFetch({
+      gamestats: () => Promise.reject(new TypeError("Failed to fetch")),
+    });
+
+    expect(await errorCode(fetchGameStats())).toBe("notRunning");
+  });
+
+  it("report other error statuses as unexpected", async () => {
+    stubFetch({
+      playerlist: () => Response.json({ message: "Internal error" }, { status: 500 }),
+      playerscores: () => Response.json({ errorCode: "INVALID_PARAMETER" }, { status: 400 }),
+    });
+
+    expect(await errorCode(fetchPlayerList())).toBe("unexpected");
+    expect(await errorCode(fetchPlayerScores("Nobody#EUW"))).toBe("unexpected");
+  });
+
+  it("report a wrong-shaped body as invalid", async () => {
+    stubFetch({
+      gamestats: () => Response.json({ gameMode: "CLASSIC" }),
+      playerlist: () =>
+        Response.json(playerList.map((player) => ({ ...player, team: "BLUE" }))),
+      eventdata: () => Response.json(session.events),
+      activeplayer: () => new Response("<html></html>"),
+    });
+
+    expect(await errorCode(fetchGameStats())).toBe("invalid");
+    expect(await errorCode(fetchPlayerList())).toBe("invalid");
+    expect(await errorCode(fetchEventData())).toBe("invalid");
+    expect(await errorCode(fetchActivePlayer())).toBe("invalid");
+  });
+});
+
+describe("riotIdOf", () => {
+  it("prefers the full Riot ID", () => {
+    expect(riotIdOf(self)).toBe("Mock Summoner#EUW");
+  });
+
+  it("joins game name and tag line when the Riot ID is missing", () => {
+    expect(riotIdOf({ riotIdGameName: "Mock Summoner", riotIdTagLine: "EUW" })).toBe(
+      "Mock Summoner#EUW",
+    );
+  });
+
+  it("returns null without a tag line", () => {
+    expect(riotIdOf({ riotIdGameName: "Mock Summoner" })).toBeNull();
+  });
+});
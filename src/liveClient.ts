@@ -0,0 +1,295 @@
+/**
+ * Client for the Live Client Data API, which the game serves on
+ * `https://127.0.0.1:2999` while a game runs, behind a self-signed
+ * certificate. Vite proxies it under `/riot-local`; `VITE_LIVE_CLIENT_URL`
+ * points elsewhere, e.g. straight at the game once its certificate is trusted.
+ */
+const LIVE_CLIENT_URL = (
+  import.meta.env.VITE_LIVE_CLIENT_URL?.trim() || "/riot-local/liveclientdata"
+).replace(/\/+$/, "");
+
+/**
+ * - `notRunning`: nothing answers, i.e. no game client is running;
+ * - `tls`: the browser couldn't reach the game directly, most likely because
+ *   it refused the self-signed certificate (it can't tell that from a closed
+ *   port);
+ * - `noGame`: the API answers but no game is in progress;
+ * - `loading`: a game is starting (loading screen) or is spectated, and
+ *   player data isn't available;
+ * - `invalid`: a response doesn't have the expected shape;
+ * - `unexpected`: anything else, e.g. an error status.
+ */
+export type LiveClientErrorCode =
+  | "notRunning"
+  | "tls"
+  | "noGame"
+  | "loading"
+  | "invalid"
+  | "unexpected";
+
+export class LiveClientError extends Error {
+  code: LiveClientErrorCode;
+
+  constructor(code: LiveClientErrorCode, message: string) {
+    super(message);
+    this.name = "LiveClientError";
+    this.code = code;
+  }
+}
+
+export type LiveRune = {
+  id: number;
+  displayName: string;
+  rawDescription?: string;
+  rawDisplayName?: string;
+};
+
+export type LiveFullRunes = {
+  keystone: LiveRune;
+  primaryRuneTree: LiveRune;
+  secondaryRuneTree: LiveRune;
+  generalRunes: LiveRune[];
+  statRunes: { id: number; rawDescription?: string }[];
+};
+
+/** Only a few stats are listed; the game sends about thirty, all numbers. */
+export type LiveChampionStats = {
+  abilityPower?: number;
+  armor?: number;
+  attackDamage?: number;
+  attackSpeed?: number;
+  currentHealth?: number;
+  maxHealth?: number;
+  moveSpeed?: number;
+  resourceType?: string;
+  resourceValue?: number;
+  resourceMax?: number;
+  [stat: string]: number | string | undefined;
+};
+
+export type LiveActivePlayer = {
+  riotId?: string;
+  riotIdGameName?: string;
+  riotIdTagLine?: string;
+  summonerName?: string;
+  level: number;
+  currentGold: number;
+  championStats: LiveChampionStats;
+  fullRunes?: LiveFullRunes;
+};
+
+export type LivePlayerScores = {
+  kills: number;
+  deaths: number;
+  assists: number;
+  creepScore: number;
+  wardScore: number;
+};
+
+export type LivePlayerItem = {
+  itemID: number;
+  displayName: string;
+  slot: number;
+  count: number;
+  price?: number;
+  canUse?: boolean;
+  consumable?: boolean;
+};
+
+export type LiveTeam = "ORDER" | "CHAOS";
+
+export type LivePlayer = {
+  riotId?: string;
+  riotIdGameName?: string;
+  riotIdTagLine?: string;
+  summonerName?: string;
+  championName: string;
+  /** e.g. "game_character_displayname_MonkeyKing" */
+  rawChampionName?: string;
+  /** Skin number within the champion; 0 is the base skin. */
+  skinID: number;
+  skinName?: string;
+  team: LiveTeam;
+  level: number;
+  isBot?: boolean;
+  isDead?: boolean;
+  respawnTimer?: number;
+  position?: string;
+  items: LivePlayerItem[];
+  scores: LivePlayerScores;
+};
+
+/**
+ * An entry of `eventdata`. The fields after `EventTime` depend on
+ * `EventName`, e.g. `KillerName` and `VictimName` for "ChampionKill",
+ * `DragonType` for "DragonKill" or `Result` for "GameEnd".
+ */
+export type LiveEvent = {
+  EventID: number;
+  EventName: string;
+  /** Seconds of game clock. */
+  EventTime: number;
+  KillerName?: string;
+  VictimName?: string;
+  Assisters?: string[];
+  KillStreak?: number;
+  DragonType?: string;
+  /** "True" or "False" */
+  Stolen?: string;
+  TurretKilled?: string;
+  InhibKilled?: string;
+  Acer?: string;
+  AcingTeam?: LiveTeam;
+  Result?: "Win" | "Lose";
+};
+
+export type LiveGameStats = {
+  /** e.g. "CLASSIC" or "ARAM" */
+  gameMode: string;
+  /** Seconds of game clock. */
+  gameTime: number;
+  mapName?: string;
+  mapNumber?: number;
+  mapTerrain?: string;
+};
+
+export type LiveAllGameData = {
+  activePlayer: LiveActivePlayer;
+  allPlayers: LivePlayer[];
+  events: { Events: LiveEvent[] };
+  gameData: LiveGameStats;
+};
+
+type Guard<T> = (value: unknown) => value is T;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** `fields` lists the required properties and their `typeof`. */
+const shaped =
+  <T>(fields: Record<string, "number" | "string" | "boolean" | "object">): Guard<T> =>
+  (value): value is T =>
+    isRecord(value) &&
+    Object.entries(fields).every(([key, type]) =>
+      type === "object" ? isRecord(value[key]) : typeof value[key] === type,
+    );
+
+const listOf =
+  <T>(guard: Guard<T>): Guard<T[]> =>
+  (value): value is T[] =>
+    Array.isArray(value) && value.every(guard);
+
+const isScores = shaped<LivePlayerScores>({
+  kills: "number",
+  deaths: "number",
+  assists: "number",
+  creepScore: "number",
+  wardScore: "number",
+});
+
+const isItem = shaped<LivePlayerItem>({
+  itemID: "number",
+  displayName: "string",
+  slot: "number",
+  count: "number",
+});
+
+const isItems = listOf(isItem);
+
+const isTeam = (value: unknown): value is LiveTeam => value === "ORDER" || value === "CHAOS";
+
+const isPlayer = (value: unknown): value is LivePlayer =>
+  shaped<LivePlayer>({ championName: "string", skinID: "number", level: "number" })(value) &&
+  isTeam(value.team) &&
+  isItems(value.items) &&
+  isScores(value.scores);
+
+const isPlayers = listOf(isPlayer);
+
+const isActivePlayer = shaped<LiveActivePlayer>({
+  level: "number",
+  currentGold: "number",
+  championStats: "object",
+});
+
+const isEvent = shaped<LiveEvent>({
+  EventID: "number",
+  EventName: "string",
+  EventTime: "number",
+});
+
+const isEvents = (value: unknown): value is { Events: LiveEvent[] } =>
+  isRecord(value) && listOf(isEvent)(value.Events);
+
+const isGameStats = shaped<LiveGameStats>({ gameMode: "string", gameTime: "number" });
+
+const isAllGameData = (value: unknown): value is LiveAllGameData =>
+  isRecord(value) &&
+  isActivePlayer(value.activePlayer) &&
+  isPlayers(value.allPlayers) &&
+  isEvents(value.events) &&
+  isGameStats(value.gameData);
+
+/**
+ * `gamestats` answers as soon as the game has a clock; the other endpoints
+ * only once players are loaded, so their 404 means the loading screen.
+ */
+async function fetchLive<T>(path: string, guard: Guard<T>): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(`${LIVE_CLIENT_URL}/${path}`);
+  } catch (error) {
+    throw new LiveClientError(
+      LIVE_CLIENT_URL.startsWith("https:") ? "tls" : "notRunning",
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+
+  const endpoint = path.split("?")[0];
+  const body = (await response.json().catch(() => undefined)) as unknown;
+  if (!response.ok) {
+    throw new LiveClientError(
+      response.status === 404
+        ? endpoint === "gamestats"
+          ? "noGame"
+          : "loading"
+        : // the dev proxy answers an empty 5xx when nothing listens on the port
+          response.status >= 500 && body === undefined
+          ? "notRunning"
+          : "unexpected",
+      `${endpoint}: ${response.status}`,
+    );
+  }
+
+  if (!guard(body)) {
+    throw new LiveClientError("invalid", `${endpoint}: unexpected response`);
+  }
+  return body;
+}
+
+const riotIdQuery = (riotId: string): string => `riotId=${encodeURIComponent(riotId)}`;
+
+export const fetchAllGameData = () => fetchLive("allgamedata", isAllGameData);
+
+export const fetchActivePlayer = () => fetchLive("activeplayer", isActivePlayer);
+
+export const fetchPlayerList = () => fetchLive("playerlist", isPlayers);
+
+export const fetchPlayerScores = (riotId: string) =>
+  fetchLive(`playerscores?${riotIdQuery(riotId)}`, isScores);
+
+export const fetchPlayerItems = (riotId: string) =>
+  fetchLive(`playeritems?${riotIdQuery(riotId)}`, isItems);
+
+export const fetchEventData = () => fetchLive("eventdata", isEvents);
+
+export const fetchGameStats = () => fetchLive("gamestats", isGameStats);
+
+/** "Name#TAG" for the player, from whichever fields the client sent. */
+export const riotIdOf = (
+  player: Pick<LivePlayer, "riotId" | "riotIdGameName" | "riotIdTagLine">,
+): string | null =>
+  player.riotId ??
+  (player.riotIdGameName && player.riotIdTagLine
+    ? `${player.riotIdGameName}#${player.riotIdTagLine}`
+    : null);
@@ -0,0 +1,117 @@
+import { riotIdOf, type LiveEvent, type LivePlayer, type LiveTeam } from "./liveClient";
+
+export type FeedKind = "kill" | "multikill" | "dragon" | "baron" | "turret";
+
+// the events the feed shows; the others (spawns, first blood, aces…) are left out
+const FEED_KINDS: Record<string, FeedKind> = {
+  ChampionKill: "kill",
+  Multikill: "multikill",
+  DragonKill: "dragon",
+  BaronKill: "baron",
+  TurretKilled: "turret",
+};
+
+/** A game being played, over (a "GameEnd" event), or closed without one. */
+export type FeedPhase = "live" | "ended" | "closed";
+
+export type FeedEntry = {
+  event: LiveEvent;
+  kind: FeedKind;
+  /** The team credited with the event, when it can be told. */
+  team: LiveTeam | null;
+  /** Whether the local player killed, died or assisted. */
+  involvesSelf: boolean;
+};
+
+export type TeamObjectives = {
+  dragons: number;
+  barons: number;
+  turrets: number;
+};
+
+export type GameSummary = {
+  /** From the "GameEnd" event; `null` when the game closed without one. */
+  result: "Win" | "Lose" | null;
+  /** Seconds of game clock at the last event. */
+  duration: number;
+  objectives: Record<LiveTeam, TeamObjectives>;
+};
+
+/**
+ * Events name players by game name, or by summoner name on older clients.
+ */
+export const isPlayerNamed = (player: LivePlayer, name: string | undefined): boolean =>
+  name !== undefined &&
+  (name === player.riotIdGameName ||
+    name === player.summonerName ||
+    name === riotIdOf(player));
+
+export const findPlayerNamed = (
+  players: LivePlayer[],
+  name: string | undefined,
+): LivePlayer | undefined => players.find((player) => isPlayerNamed(player, name));
+
+// Structures and minions carry their team in their name:
+// "Turret_T1_L_03_A" is blue's (ORDER), "Minion_T200L0S11N0125" is red's (CHAOS).
+const structureTeam = (name: string | undefined): LiveTeam | null => {
+  const team = name?.match(/^(?:Turret|Barracks)_T([12])_|^Minion_T([12])00/);
+  if (!team) return null;
+  return (team[1] ?? team[2]) === "1" ? "ORDER" : "CHAOS";
+};
+
+const otherTeam = (team: LiveTeam | null): LiveTeam | null =>
+  team === "ORDER" ? "CHAOS" : team === "CHAOS" ? "ORDER" : null;
+
+export function buildFeed(
+  events: LiveEvent[],
+  players: LivePlayer[],
+  self: LivePlayer | undefined,
+): FeedEntry[] {
+  return events.flatMap((event) => {
+    const kind = FEED_KINDS[event.EventName];
+    if (!kind) {
+      return [];
+    }
+
+    const killerTeam =
+      findPlayerNamed(players, event.KillerName)?.team ?? structureTeam(event.KillerName);
+    const names = [event.KillerName, event.VictimName, ...(event.Assisters ?? [])];
+
+    return [
+      {
+        event,
+        kind,
+        // a turret falls to the team that doesn't own it, whoever got the last hit
+        team: kind === "turret" ? (otherTeam(structureTeam(event.TurretKilled)) ?? killerTeam) : killerTeam,
+        involvesSelf: self !== undefined && names.some((name) => isPlayerNamed(self, name)),
+      },
+    ];
+  });
+}
+
+export function summarizeGame(events: LiveEvent[], feed: FeedEntry[]): GameSummary {
+  const objectives: Record<LiveTeam, TeamObjectives> = {
+    ORDER: { dragons: 0, barons: 0, turrets: 0 },
+    CHAOS: { dragons: 0, barons: 0, turrets: 0 },
+  };
+
+  for (const entry of feed) {
+    if (!entry.team) continue;
+    if (entry.kind === "dragon") objectives[entry.team].dragons += 1;
+    if (entry.kind === "baron") objectives[entry.team].barons += 1;
+    if (entry.kind === "turret") objectives[entry.team].turrets += 1;
+  }
+
+  const end = events.find((event) => event.EventName === "GameEnd");
+  return {
+    result: end?.Result ?? null,
+    duration: events.reduce((last, event) => Math.max(last, event.EventTime), 0),
+    objectives,
+  };
+}
+
+// 754.2 -> "12:34"
+export const formatGameTime = (seconds: number): string => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+};
@@ -0,0 +1,430 @@
+import type { DDragonSource } from "../ddragon";
+import type { Messages } from "./fr";
+
+const sourceLabel = (source: DDragonSource): string => {
+  switch (source.kind) {
+    case "cdn":
+      return "Data Dragon CDN";
+    case "mirror":
+      return `mirror ${source.baseUrl}`;
+    case "local":
+      return `local directory ${source.baseUrl}`;
+  }
+};
+
+export const en: Messages = {
+  nav: {
+    skins: "Skin tracker",
+    account: "Connected account",
+    stats: "Statistics",
+    language: "Language",
+  },
+  profiles: {
+    label: "Profile",
+    defaultName: "Main",
+    create: "New profile",
+    createPrompt: "Name of the new profile:",
+    rename: "Rename profile",
+    renamePrompt: "New profile name:",
+    delete: "Delete profile",
+    deleteConfirm: (name) =>
+      `Delete the "${name}" profile and its collection? Export it first to keep it.`,
+  },
+  catalog: {
+    versionError: (source) =>
+      `Could not read the Data Dragon version (${sourceLabel(source)}). Prefill is disabled.`,
+    indexError: (version, source) =>
+      `Could not read the ${version} champion list (${sourceLabel(source)}). Prefill is disabled.`,
+    skinsError: (champion, source) =>
+      `Could not read the skins of ${champion} (${sourceLabel(source)}).`,
+  },
+  tracker: {
+    eyebrow: "Local tracking",
+    title: "League of Legends - Skin tracker",
+    championsSummary: (checked, total) =>
+      `${checked}/${total} champions with at least one skin checked`,
+    skinsSummary: (checked, total) => `${checked}/${total} skins checked`,
+    chromasSummary: (checked, total) => `${checked}/${total} chromas checked`,
+    prefillVisible: "Prefill (visible)",
+    prefillVisibleTitle: "Prefill the official skins of the visible champions",
+    prefilling: "Prefilling…",
+    clearChecks: "Clear checks",
+    exportJson: "Export JSON",
+    exportCsv: "Export CSV",
+    exportTsv: "Export TSV",
+    importJson: "Import JSON/CSV",
+    importFailed: (reason) => `Import failed: ${reason}`,
+    unknownError: "unknown",
+    filterPlaceholder: "Search... (e.g. skin:\"arcade\" owned:no)",
+    filterLabel: "Search champions or skins",
+    filterHelp:
+      "Free text matches champions and skins; structured terms: champ:, skin:, owned:yes/no, status:, tier:, count:>5. Prefix a term with - to exclude it.",
+    filterInvalid: (terms) => `Ignored terms: ${terms}`,
+    statusLabel: "Filter by status",
+    showAll: "Show: All",
+    showWith: "Show: With a checked skin",
+    showWithout: "Show: Without a checked skin",
+    showWishlist: "Show: Wishlist",
+    wishlistSummary: (count) => `${count} on the wishlist`,
+    valueSummary: (rp, unpriced) =>
+      unpriced > 0
+        ? `~${rp} RP collection value (${unpriced} unpriced skins)`
+        : `~${rp} RP collection value`,
+    valueTitle: (updated) => `Estimated from the bundled price table (updated ${updated})`,
+    expandAll: "Expand all",
+    collapseAll: "Collapse all",
+    empty: "No champion matches your filter.",
+  },
+  row: {
+    toggleAll: (champion) => `Check all for ${champion}`,
+    prefill: "↻ Prefill",
+    prefillTitle: "Prefill the official skins of this champion",
+    prefillShortTitle: "Prefill",
+    addPlaceholder: "Add a skin...",
+    addLabel: (champion) => `Add a skin for ${champion}`,
+    add: "Add",
+    empty: "No skins yet. Add some above.",
+    remove: "Remove",
+    removeVariant: "Remove variant",
+    chromas: (checked, total) => `${checked}/${total} chromas`,
+    played: (count) => `played ${count} time${count === 1 ? "" : "s"}`,
+    lastPlayed: (date) => `Last played on ${date}`,
+    newBadge: "new",
+    statusLabel: (name) => `Status of ${name}`,
+  },
+  status: {
+    owned: "Owned",
+    wishlist: "Wishlist",
+    ignored: "Ignored",
+    unknown: "Not set",
+  },
+  wishlist: {
+    markOwned: "Owned",
+    remove: "Remove",
+  },
+  skinLines: {
+    viewLabel: "View",
+    byChampion: "By champion",
+    byLine: "By skin line",
+    showOwned: "Also show owned skins",
+    inferred: "inferred",
+    inferredTitle: "Line inferred from skin names, not in the skin line catalog",
+    completion: (name) => `${name} completion`,
+    complete: "Nothing missing from this line.",
+    empty: "No skin line found. Prefill champions' skins to group them by line.",
+  },
+  tiers: {
+    filterLabel: "Filter by tier",
+    all: "Tier: All",
+    unpriced: "Unpriced",
+    sortLabel: "Sort skins",
+    sortCatalog: "Sort: Catalog",
+    sortTier: "Sort: Tier",
+    names: {
+      budget: "Budget",
+      standard: "Standard",
+      epic: "Epic",
+      legendary: "Legendary",
+      ultimate: "Ultimate",
+      mythic: "Mythic",
+      prestige: "Prestige",
+      transcendent: "Transcendent",
+    },
+    badgeTitle: (rp) => `Estimated value: ${rp} RP`,
+  },
+  acquisition: {
+    label: (name) => `How ${name} was obtained`,
+    date: "Date obtained",
+    source: "Source",
+    noSource: "Source?",
+    sources: {
+      shop: "Shop",
+      hextech: "Hextech",
+      pass: "Event pass",
+      prime: "Prime Gaming",
+      gift: "Gift",
+    },
+    cost: "Cost",
+    currency: "Currency",
+    currencies: {
+      rp: "RP",
+      essence: "Essence",
+    },
+  },
+  spending: {
+    button: "Spending",
+    title: "Spending",
+    total: (rp, essence, skins) =>
+      `${rp} RP and ${essence} essence across ${skins} recorded skin${skins > 1 ? "s" : ""}`,
+    close: "Close",
+    empty: "No acquisition recorded yet: set the date, source and cost on an owned skin.",
+    byMonth: "Month",
+    bySource: "Source",
+    skins: "Skins",
+    undated: "Undated",
+    noSource: "No source",
+  },
+  stats: {
+    eyebrow: "Statistics",
+    title: "Collection statistics",
+    empty: "No skins in the collection yet. Prefill some champions to see statistics.",
+    ratio: (owned, total, share) => `${owned}/${total} · ${share}`,
+    topChampions: "Champions with the most skins",
+    byTier: "By tier",
+    byRole: "By role",
+    byLine: "By skin line",
+    overTime: "Skins obtained per month",
+    monthTitle: (month, count) => `${month}: ${count} skin${count === 1 ? "" : "s"}`,
+    noAcquisitions: "No acquisition dates recorded.",
+    byChampion: "Completion per champion",
+    orderLabel: "Sort completion",
+    orderCompletion: "Sort: Completion",
+    orderName: "Sort: Name",
+    rolesUnavailable: "Roles are unavailable without the Data Dragon champion list.",
+    noRole: "No role",
+    roles: {
+      Assassin: "Assassin",
+      Fighter: "Fighter",
+      Mage: "Mage",
+      Marksman: "Marksman",
+      Support: "Support",
+      Tank: "Tank",
+    },
+  },
+  live: {
+    start: "Watch games",
+    stop: "Stop watching",
+    states: {
+      off: "Marks the skin you play as owned (needs the game client running)",
+      waiting: "Waiting for a game…",
+      inGame: "Game in progress: skin detected",
+    },
+    notificationTitle: "Skin tracker",
+  },
+  lcu: {
+    button: "Import from client",
+    buttonTitle: "Read the skins owned in the League of Legends client (needs the local companion)",
+    reading: "Reading the client…",
+    source: "League of Legends client",
+    sourceOf: (summoner) => `League of Legends client (${summoner})`,
+    unmatched: (count) =>
+      `${count} inventory skin${count === 1 ? "" : "s"} or chroma${count === 1 ? "" : "s"} matched nothing in the collection.`,
+    errors: {
+      companion:
+        "The local companion can't be reached. Run \"npm run lcu:companion\" on the client's machine.",
+      client: "The League of Legends client isn't running.",
+      auth: "The client refused access: restart it to renew its lockfile.",
+      unexpected: "Unexpected answer from the client.",
+    },
+  },
+  seen: {
+    view: "Seen in games",
+    empty:
+      "No game recorded yet. Turn on in-game tracking, or read the local client from the Account page, during a game.",
+    summary: (games, skins) =>
+      `${games} game${games === 1 ? "" : "s"} recorded, ${skins} skin${skins === 1 ? "" : "s"} seen`,
+    mostSeen: "Most seen",
+    skin: "Skin",
+    games: "Games",
+    lastSeen: "Last seen",
+    owned: "Owned",
+    yes: "Yes",
+    no: "No",
+    notOwned: "Seen but not owned",
+    allOwned: "You own every skin seen in games.",
+    timesSeen: (count) => `seen in ${count} game${count === 1 ? "" : "s"}`,
+    unknownSkin: (num) => `Skin #${num}`,
+    addToWishlist: "Add to wishlist",
+  },
+  feed: {
+    title: "Live game",
+    summaryTitle: "Game summary",
+    phases: {
+      live: "Updated every 3 seconds",
+      ended: "Game over",
+      closed: "The game closed",
+    },
+    empty: "No events yet.",
+    kda: "K/D/A",
+    cs: "Creep score",
+    items: "Items",
+    noItems: "No items",
+    minion: "A minion",
+    turret: "A turret",
+    monster: "A monster",
+    unknown: "Unknown",
+    events: {
+      kill: (killer, victim) => `${killer} killed ${victim}`,
+      multikill: (killer, streak) =>
+        `${killer}: ${["", "", "double", "triple", "quadra", "penta"][streak] ?? streak} kill`,
+      dragon: (killer, dragon, stolen) =>
+        `${killer} slew the ${dragon} dragon${stolen ? " (stolen)" : ""}`,
+      baron: (killer, stolen) => `${killer} slew Baron Nashor${stolen ? " (stolen)" : ""}`,
+      turret: (killer) => `${killer} destroyed a turret`,
+    },
+    dragonTypes: {
+      Fire: "Infernal",
+      Earth: "Mountain",
+      Water: "Ocean",
+      Air: "Cloud",
+      Hextech: "Hextech",
+      Chemtech: "Chemtech",
+      Elder: "Elder",
+    },
+    results: {
+      Win: "Victory",
+      Lose: "Defeat",
+    },
+    noResult: "Result unknown",
+    duration: (time) => `Duration: ${time}`,
+    teams: {
+      ORDER: "Blue team",
+      CHAOS: "Red team",
+    },
+    yourTeam: (team) => `${team} (yours)`,
+    objectives: (team, dragons, barons, turrets) =>
+      `${team}: ${dragons} dragon${dragons === 1 ? "" : "s"}, ${barons} baron${barons === 1 ? "" : "s"}, ${turrets} turret${turrets === 1 ? "" : "s"}`,
+  },
+  history: {
+    undo: "Undo",
+    redo: "Redo",
+    undoTitle: (label) => `Undo: ${label} (Ctrl+Z)`,
+    redoTitle: (label) => `Redo: ${label} (Ctrl+Shift+Z)`,
+    toggleAll: (name) => `Toggle ${name}`,
+    toggleSkin: (name) => `Toggle ${name}`,
+    addSkin: (name) => `Add ${name}`,
+    removeSkin: (name) => `Remove ${name}`,
+    setStatus: (name, status) => `${name}: ${status}`,
+    setAcquisition: (name) => `Acquisition of ${name}`,
+    clearChecks: "All checks were cleared",
+    import: (file) => `Import ${file}`,
+    prefill: (name) => `Prefill ${name}`,
+    prefillVisible: (count) =>
+      `Prefill ${count} champion${count > 1 ? "s" : ""}`,
+    mergeOrphan: (name) => `Merge ${name}`,
+    removeOrphan: (name) => `Remove ${name}`,
+    liveOwned: (name) => `${name} marked owned (seen in game)`,
+    seenWishlist: (name) => `${name} added to wishlist (seen in games)`,
+  },
+  importDialog: {
+    title: (file) => `Import ${file}`,
+    noChanges: "This file doesn't change the collection.",
+    unmatched: (names) => `Skipped champions (not found): ${names}`,
+    strategyLabel: "Strategy",
+    strategies: {
+      replace: "Replace",
+      union: "Union of owned",
+      local: "Keep local",
+      custom: "Per champion",
+    },
+    strategyHints: {
+      replace:
+        "The imported list replaces each champion's local list; chromas and acquisitions it doesn't include are kept.",
+      union: "Missing skins are added; a skin owned on either side stays owned.",
+      local: "Nothing is imported.",
+      custom: "Pick a strategy for each champion below.",
+    },
+    championStrategy: (name) => `Strategy for ${name}`,
+    added: "Added",
+    removed: "Removed",
+    owned: "Owned",
+    unowned: "No longer owned",
+    restatus: "Status",
+    skipped: (count) => `${count} unrecognized row${count > 1 ? "s" : ""} skipped`,
+    skippedRow: (row) =>
+      `Line ${row.line}: ${row.champion || "?"} / ${row.skin || "?"} (${
+        row.reason === "champion" ? "unknown champion" : "unknown skin, prefill first"
+      })`,
+    apply: "Import",
+    cancel: "Cancel",
+  },
+  share: {
+    button: "Share",
+    buttonTitle: "Copy a read-only link to this collection",
+    copied: "Share link copied to the clipboard.",
+    copyPrompt: "Copy this share link:",
+    skipped: (count) =>
+      `${count} skin${count > 1 ? "s" : ""} without a catalog id ${count > 1 ? "are" : "is"} not included (prefill first).`,
+    heading: (name) => (name ? `${name}'s shared collection` : "Shared collection"),
+    readOnly: "read-only",
+    summary: (skins, champions) =>
+      `${skins} owned skin${skins > 1 ? "s" : ""} across ${champions} champion${champions > 1 ? "s" : ""}`,
+    loading: "Reading the link…",
+    empty: "No owned skins in this link.",
+    invalid: (reason) => `Unreadable share link: ${reason}`,
+    import: "Import…",
+    close: "Close",
+  },
+  storage: {
+    errors: {
+      parse: "the JSON is unreadable",
+      format: "the format is not recognized",
+      newer: "the data comes from a newer version of the app",
+    },
+    reset: (reason) =>
+      `The saved collection could not be loaded (${reason}). An empty collection was created.`,
+    migrated: (from) =>
+      `The saved collection (format v${from}) was upgraded to the current format.`,
+    dropped: (count) =>
+      count === 1
+        ? "One unreadable entry of the saved collection was skipped."
+        : `${count} unreadable entries of the saved collection were skipped.`,
+    backedUp: "A copy of the original data was kept.",
+    notBackedUp:
+      "The backup copy could not be saved, so changes won't be saved over the original data until you dismiss this message. Download it first to keep it.",
+    saveFailed:
+      "Could not save the collection in the browser (storage full?). Export it to avoid losing anything.",
+    downloadBackup: "Download backup",
+    downloadOriginal: "Download original data",
+    dismiss: "Dismiss",
+  },
+  roster: {
+    orphansIntro: (count) =>
+      count === 1
+        ? "A saved champion no longer matches the catalog. Merge its skins into an existing champion or remove it."
+        : `${count} saved champions no longer match the catalog. Merge their skins into an existing champion or remove them.`,
+    skinCount: (count) => `${count} skin${count > 1 ? "s" : ""}`,
+    targetLabel: (name) => `Target champion for ${name}`,
+    chooseTarget: "Merge into…",
+    merge: "Merge",
+    remove: "Remove",
+  },
+  account: {
+    connecting: "Connecting to the local client...",
+    loaded: "Following the game: data refreshes every few seconds.",
+    errors: {
+      notRunning: "The game client is not answering. Start a game: this page picks it up on its own.",
+      tls: "The browser could not reach the game directly: its certificate is probably not trusted, or no game is running.",
+      noGame: "No game in progress. Start a game: this page picks it up on its own.",
+      loading: "The game is still loading, or spectated: player data isn't available yet.",
+      invalid: "The local client sent unexpected data.",
+      unexpected: "Could not reach the local Riot client.",
+    },
+    eyebrow: "Connected account",
+    title: "Local client info",
+    intro:
+      "This page reads the local League client while a game is in progress. Riot's public API does not provide the owned skin inventory.",
+    connectingButton: "Connecting…",
+    readButton: "Read now",
+    canReadTitle: "What this page can read",
+    canReadBody:
+      "During a game, Riot exposes the active player, Riot ID, played champion, skinID, level, runes and a few stats.",
+    cannotReadTitle: "What it cannot read",
+    cannotReadBody:
+      "The full list of skins owned by an account is not exposed by the standard public API. The tracker can still read it from the League of Legends client through the local companion (\"Import from client\").",
+    noData: "No data",
+    riotId: "Riot ID",
+    accountLabel: "Account",
+    level: "Level",
+    gold: "Gold",
+    champion: "Champion",
+    skinId: "In-game skin ID",
+    team: "Team",
+    profile: "Profile",
+    linkedToActive: (name) => `Linked to the ${name} profile`,
+    switchToProfile: (name) => `Switch to the ${name} profile`,
+    linkToProfile: (name) => `Link to the ${name} profile`,
+    footer:
+      "Reading an account outside a game requires the local League client and its internal endpoints, or a Riot-approved backend with RSO login. The Live Client API alone cannot provide this data outside a game.",
+  },
+};
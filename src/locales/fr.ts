@@ -0,0 +1,439 @@
+import type { DDragonSource } from "../ddragon";
+import type { SkippedRow } from "../spreadsheet";
+
+const sourceLabel = (source: DDragonSource): string => {
+  switch (source.kind) {
+    case "cdn":
+      return "CDN Data Dragon";
+    case "mirror":
+      return `miroir ${source.baseUrl}`;
+    case "local":
+      return `dossier local ${source.baseUrl}`;
+  }
+};
+
+export const fr = {
+  nav: {
+    skins: "Suivi des skins",
+    account: "Compte connecté",
+    stats: "Statistiques",
+    language: "Langue",
+  },
+  profiles: {
+    label: "Profil",
+    defaultName: "Principal",
+    create: "Nouveau profil",
+    createPrompt: "Nom du nouveau profil :",
+    rename: "Renommer le profil",
+    renamePrompt: "Nouveau nom du profil :",
+    delete: "Supprimer le profil",
+    deleteConfirm: (name: string) =>
+      `Supprimer le profil « ${name} » et sa collection ? Exportez-la d'abord pour la conserver.`,
+  },
+  catalog: {
+    versionError: (source: DDragonSource) =>
+      `Impossible de lire la version Data Dragon (${sourceLabel(source)}). Le préremplissage est désactivé.`,
+    indexError: (version: string, source: DDragonSource) =>
+      `Impossible de lire la liste des champions ${version} (${sourceLabel(source)}). Le préremplissage est désactivé.`,
+    skinsError: (champion: string, source: DDragonSource) =>
+      `Impossible de lire les skins de ${champion} (${sourceLabel(source)}).`,
+  },
+  tracker: {
+    eyebrow: "Suivi local",
+    title: "League of Legends - Suivi des skins",
+    championsSummary: (checked: number, total: number) =>
+      `${checked}/${total} champions avec au moins un skin coché`,
+    skinsSummary: (checked: number, total: number) =>
+      `${checked}/${total} skins cochés`,
+    chromasSummary: (checked: number, total: number) =>
+      `${checked}/${total} chromas cochés`,
+    prefillVisible: "Préremplir (visibles)",
+    prefillVisibleTitle: "Préremplir les skins officiels pour les champions visibles",
+    prefilling: "Préremplissage…",
+    clearChecks: "Réinitialiser les coches",
+    exportJson: "Exporter JSON",
+    exportCsv: "Exporter CSV",
+    exportTsv: "Exporter TSV",
+    importJson: "Importer JSON/CSV",
+    importFailed: (reason: string) => `Échec de l'import: ${reason}`,
+    unknownError: "inconnu",
+    filterPlaceholder: "Rechercher... (ex. skin:\"arcade\" owned:non)",
+    filterLabel: "Rechercher un champion ou un skin",
+    filterHelp:
+      "Texte libre sur les champions et les skins, ou termes : champ:, skin:, owned:oui/non, status:, tier:, count:>5. Préfixez un terme par - pour l'exclure.",
+    filterInvalid: (terms: string) => `Termes ignorés : ${terms}`,
+    statusLabel: "Filtrer par statut",
+    showAll: "Afficher: Tous",
+    showWith: "Afficher: Avec skin coche",
+    showWithout: "Afficher: Sans skin coche",
+    showWishlist: "Afficher: Liste de souhaits",
+    wishlistSummary: (count: number) => `${count} en liste de souhaits`,
+    valueSummary: (rp: string, unpriced: number) =>
+      unpriced > 0
+        ? `~${rp} RP de collection (${unpriced} skins sans tarif)`
+        : `~${rp} RP de collection`,
+    valueTitle: (updated: string) =>
+      `Estimation à partir de la grille tarifaire intégrée (mise à jour le ${updated})`,
+    expandAll: "Tout déployer",
+    collapseAll: "Tout replier",
+    empty: "Aucun champion ne correspond à votre filtre.",
+  },
+  row: {
+    toggleAll: (champion: string) => `Tout cocher pour ${champion}`,
+    prefill: "↻ Préremplir",
+    prefillTitle: "Préremplir les skins officiels pour ce champion",
+    prefillShortTitle: "Préremplir",
+    addPlaceholder: "Ajouter un skin...",
+    addLabel: (champion: string) => `Ajouter un skin pour ${champion}`,
+    add: "Ajouter",
+    empty: "Aucun skin pour l'instant. Ajoutez-en ci-dessus.",
+    remove: "Supprimer",
+    removeVariant: "Supprimer variante",
+    chromas: (checked: number, total: number) => `${checked}/${total} chromas`,
+    played: (count: number) => `joué ${count} fois`,
+    lastPlayed: (date: string) => `Dernière partie le ${date}`,
+    newBadge: "nouveau",
+    statusLabel: (name: string) => `Statut de ${name}`,
+  },
+  status: {
+    owned: "Possédé",
+    wishlist: "Souhaité",
+    ignored: "Ignoré",
+    unknown: "Non défini",
+  },
+  wishlist: {
+    markOwned: "Possédé",
+    remove: "Retirer",
+  },
+  skinLines: {
+    viewLabel: "Vue",
+    byChampion: "Par champion",
+    byLine: "Par thème",
+    showOwned: "Afficher aussi les skins possédés",
+    inferred: "déduit",
+    inferredTitle: "Thème déduit des noms de skins, absent du catalogue des thèmes",
+    completion: (name: string) => `Complétion de ${name}`,
+    complete: "Rien ne manque dans ce thème.",
+    empty: "Aucun thème trouvé. Préremplissez les skins des champions pour les regrouper par thème.",
+  },
+  tiers: {
+    filterLabel: "Filtrer par rareté",
+    all: "Rareté: Toutes",
+    unpriced: "Sans tarif",
+    sortLabel: "Trier les skins",
+    sortCatalog: "Tri: Catalogue",
+    sortTier: "Tri: Rareté",
+    names: {
+      budget: "Économique",
+      standard: "Standard",
+      epic: "Épique",
+      legendary: "Légendaire",
+      ultimate: "Ultime",
+      mythic: "Mythique",
+      prestige: "Prestige",
+      transcendent: "Transcendant",
+    },
+    badgeTitle: (rp: string) => `Valeur estimée: ${rp} RP`,
+  },
+  acquisition: {
+    label: (name: string) => `Obtention de ${name}`,
+    date: "Date d'obtention",
+    source: "Source",
+    noSource: "Source ?",
+    sources: {
+      shop: "Boutique",
+      hextech: "Hextech",
+      pass: "Pass d'événement",
+      prime: "Prime Gaming",
+      gift: "Cadeau",
+    },
+    cost: "Coût",
+    currency: "Monnaie",
+    currencies: {
+      rp: "RP",
+      essence: "Essence",
+    },
+  },
+  spending: {
+    button: "Dépenses",
+    title: "Dépenses",
+    total: (rp: string, essence: string, skins: number) =>
+      `${rp} RP et ${essence} essence sur ${skins} skin${skins > 1 ? "s" : ""} renseigné${skins > 1 ? "s" : ""}`,
+    close: "Fermer",
+    empty: "Aucune obtention renseignée : indiquez la date, la source et le coût sur un skin possédé.",
+    byMonth: "Mois",
+    bySource: "Source",
+    skins: "Skins",
+    undated: "Sans date",
+    noSource: "Sans source",
+  },
+  stats: {
+    eyebrow: "Statistiques",
+    title: "Statistiques de la collection",
+    empty: "Aucun skin dans la collection. Préremplissez des champions pour voir des statistiques.",
+    ratio: (owned: number, total: number, share: string) => `${owned}/${total} · ${share}`,
+    topChampions: "Champions avec le plus de skins",
+    byTier: "Par rareté",
+    byRole: "Par rôle",
+    byLine: "Par thème",
+    overTime: "Obtentions par mois",
+    monthTitle: (month: string, count: number) =>
+      `${month}: ${count} skin${count > 1 ? "s" : ""}`,
+    noAcquisitions: "Aucune date d'obtention enregistrée.",
+    byChampion: "Complétion par champion",
+    orderLabel: "Trier la complétion",
+    orderCompletion: "Tri: Complétion",
+    orderName: "Tri: Nom",
+    rolesUnavailable: "Rôles indisponibles sans la liste des champions Data Dragon.",
+    noRole: "Sans rôle",
+    roles: {
+      Assassin: "Assassin",
+      Fighter: "Combattant",
+      Mage: "Mage",
+      Marksman: "Tireur",
+      Support: "Support",
+      Tank: "Tank",
+    },
+  },
+  live: {
+    start: "Suivi en jeu",
+    stop: "Arrêter le suivi",
+    states: {
+      off: "Marque automatiquement comme possédé le skin que vous jouez (client en jeu requis)",
+      waiting: "En attente d'une partie…",
+      inGame: "Partie en cours : skin détecté",
+    },
+    notificationTitle: "Suivi des skins",
+  },
+  lcu: {
+    button: "Importer du client",
+    buttonTitle: "Lire les skins possédés dans le client League of Legends (compagnon local requis)",
+    reading: "Lecture du client…",
+    source: "Client League of Legends",
+    sourceOf: (summoner: string) => `Client League of Legends (${summoner})`,
+    unmatched: (count: number) =>
+      `${count} skin${count > 1 ? "s" : ""} ou chroma${count > 1 ? "s" : ""} de l'inventaire sans correspondance dans la collection.`,
+    errors: {
+      companion:
+        "Compagnon local injoignable. Lancez « npm run lcu:companion » sur la machine du client.",
+      client: "Le client League of Legends n'est pas lancé.",
+      auth: "Le client a refusé l'accès : relancez-le pour renouveler son fichier lockfile.",
+      unexpected: "Réponse inattendue du client.",
+    },
+  },
+  seen: {
+    view: "Vus en partie",
+    empty:
+      "Aucune partie enregistrée. Activez le suivi en jeu, ou lisez le client local depuis la page Compte, pendant une partie.",
+    summary: (games: number, skins: number) =>
+      `${games} partie${games > 1 ? "s" : ""} enregistrée${games > 1 ? "s" : ""}, ${skins} skin${skins > 1 ? "s" : ""} vu${skins > 1 ? "s" : ""}`,
+    mostSeen: "Les plus vus",
+    skin: "Skin",
+    games: "Parties",
+    lastSeen: "Vu le",
+    owned: "Possédé",
+    yes: "Oui",
+    no: "Non",
+    notOwned: "Vus mais pas possédés",
+    allOwned: "Vous possédez tous les skins vus en partie.",
+    timesSeen: (count: number) => `vu dans ${count} partie${count > 1 ? "s" : ""}`,
+    unknownSkin: (num: number) => `Skin n° ${num}`,
+    addToWishlist: "Ajouter aux souhaits",
+  },
+  feed: {
+    title: "Partie en direct",
+    summaryTitle: "Résumé de la partie",
+    phases: {
+      live: "Mise à jour toutes les 3 secondes",
+      ended: "Partie terminée",
+      closed: "Le jeu s'est fermé",
+    },
+    empty: "Aucun événement pour l'instant.",
+    kda: "K/D/A",
+    cs: "Sbires tués",
+    items: "Objets",
+    noItems: "Aucun objet",
+    minion: "Un sbire",
+    turret: "Une tourelle",
+    monster: "Un monstre",
+    unknown: "Inconnu",
+    events: {
+      kill: (killer: string, victim: string) => `${killer} a tué ${victim}`,
+      multikill: (killer: string, streak: number) =>
+        `${killer} : ${["", "", "double", "triple", "quadruple", "penta"][streak] ?? streak} kill`,
+      dragon: (killer: string, dragon: string, stolen: boolean) =>
+        `${killer} a tué le dragon ${dragon}${stolen ? " (volé)" : ""}`,
+      baron: (killer: string, stolen: boolean) =>
+        `${killer} a tué le Baron Nashor${stolen ? " (volé)" : ""}`,
+      turret: (killer: string) => `${killer} a détruit une tourelle`,
+    },
+    dragonTypes: {
+      Fire: "infernal",
+      Earth: "des montagnes",
+      Water: "océanique",
+      Air: "des nuages",
+      Hextech: "hextech",
+      Chemtech: "chemtech",
+      Elder: "ancestral",
+    },
+    results: {
+      Win: "Victoire",
+      Lose: "Défaite",
+    },
+    noResult: "Résultat inconnu",
+    duration: (time: string) => `Durée : ${time}`,
+    teams: {
+      ORDER: "Équipe bleue",
+      CHAOS: "Équipe rouge",
+    },
+    yourTeam: (team: string) => `${team} (la tienne)`,
+    objectives: (team: string, dragons: number, barons: number, turrets: number) =>
+      `${team} : ${dragons} dragon${dragons > 1 ? "s" : ""}, ${barons} baron${barons > 1 ? "s" : ""}, ${turrets} tourelle${turrets > 1 ? "s" : ""}`,
+  },
+  history: {
+    undo: "Annuler",
+    redo: "Rétablir",
+    undoTitle: (label: string) => `Annuler : ${label} (Ctrl+Z)`,
+    redoTitle: (label: string) => `Rétablir : ${label} (Ctrl+Maj+Z)`,
+    toggleAll: (name: string) => `Cocher/décocher ${name}`,
+    toggleSkin: (name: string) => `Cocher/décocher ${name}`,
+    addSkin: (name: string) => `Ajout de ${name}`,
+    removeSkin: (name: string) => `Suppression de ${name}`,
+    setStatus: (name: string, status: string) => `${name} : ${status}`,
+    setAcquisition: (name: string) => `Obtention de ${name}`,
+    clearChecks: "Toutes les coches ont été retirées",
+    import: (file: string) => `Import de ${file}`,
+    prefill: (name: string) => `Préremplissage de ${name}`,
+    prefillVisible: (count: number) =>
+      `Préremplissage de ${count} champion${count > 1 ? "s" : ""}`,
+    mergeOrphan: (name: string) => `Fusion de ${name}`,
+    removeOrphan: (name: string) => `Suppression de ${name}`,
+    liveOwned: (name: string) => `${name} marqué possédé (vu en jeu)`,
+    seenWishlist: (name: string) => `${name} ajouté aux souhaits (vu en partie)`,
+  },
+  importDialog: {
+    title: (file: string) => `Importer ${file}`,
+    noChanges: "Ce fichier ne change rien à la collection.",
+    unmatched: (names: string) => `Champions ignorés (introuvables) : ${names}`,
+    strategyLabel: "Stratégie",
+    strategies: {
+      replace: "Remplacer",
+      union: "Union des possédés",
+      local: "Garder local",
+      custom: "Par champion",
+    },
+    strategyHints: {
+      replace:
+        "La liste importée remplace la liste locale de chaque champion ; les chromas et achats qu'elle ne contient pas sont conservés.",
+      union: "Les skins manquants sont ajoutés ; un skin possédé d'un côté le reste.",
+      local: "Rien n'est importé.",
+      custom: "Choisissez la stratégie de chaque champion ci-dessous.",
+    },
+    championStrategy: (name: string) => `Stratégie pour ${name}`,
+    added: "Ajoutés",
+    removed: "Retirés",
+    owned: "Possédés",
+    unowned: "Plus possédés",
+    restatus: "Statut",
+    skipped: (count: number) =>
+      `${count} ligne${count > 1 ? "s" : ""} non reconnue${count > 1 ? "s" : ""}, ignorée${count > 1 ? "s" : ""}`,
+    skippedRow: (row: SkippedRow) =>
+      `Ligne ${row.line} : ${row.champion || "?"} / ${row.skin || "?"} (${
+        row.reason === "champion" ? "champion inconnu" : "skin inconnu, préremplissez d'abord"
+      })`,
+    apply: "Importer",
+    cancel: "Annuler",
+  },
+  share: {
+    button: "Partager",
+    buttonTitle: "Copier un lien en lecture seule vers cette collection",
+    copied: "Lien de partage copié dans le presse-papiers.",
+    copyPrompt: "Copiez ce lien de partage :",
+    skipped: (count: number) =>
+      `${count} skin${count > 1 ? "s" : ""} sans identifiant du catalogue ${count > 1 ? "ne sont" : "n'est"} pas inclus (préremplissez d'abord).`,
+    heading: (name: string) => (name ? `Collection partagée de ${name}` : "Collection partagée"),
+    readOnly: "lecture seule",
+    summary: (skins: number, champions: number) =>
+      `${skins} skin${skins > 1 ? "s" : ""} possédé${skins > 1 ? "s" : ""} sur ${champions} champion${champions > 1 ? "s" : ""}`,
+    loading: "Lecture du lien…",
+    empty: "Aucun skin possédé dans ce lien.",
+    invalid: (reason: string) => `Lien de partage illisible : ${reason}`,
+    import: "Importer…",
+    close: "Fermer",
+  },
+  storage: {
+    errors: {
+      parse: "le JSON est illisible",
+      format: "le format n'est pas reconnu",
+      newer: "les données viennent d'une version plus récente de l'application",
+    },
+    reset: (reason: string) =>
+      `La collection enregistrée n'a pas pu être chargée (${reason}). Une collection vide a été créée.`,
+    migrated: (from: number) =>
+      `La collection enregistrée (format v${from}) a été mise à jour vers le format actuel.`,
+    dropped: (count: number) =>
+      count === 1
+        ? "Une entrée illisible de la collection enregistrée a été ignorée."
+        : `${count} entrées illisibles de la collection enregistrée ont été ignorées.`,
+    backedUp: "Une copie des données d'origine a été conservée.",
+    notBackedUp:
+      "La copie de sauvegarde n'a pas pu être enregistrée : les modifications n'écraseront pas les données d'origine tant que ce message n'est pas fermé. Téléchargez-les d'abord pour les garder.",
+    saveFailed:
+      "Impossible d'enregistrer la collection dans le navigateur (espace plein ?). Exportez-la pour ne rien perdre.",
+    downloadBackup: "Télécharger la sauvegarde",
+    downloadOriginal: "Télécharger les données d'origine",
+    dismiss: "Fermer",
+  },
+  roster: {
+    orphansIntro: (count: number) =>
+      count === 1
+        ? "Un champion enregistré ne correspond plus au catalogue. Fusionnez ses skins avec un champion existant ou supprimez-le."
+        : `${count} champions enregistrés ne correspondent plus au catalogue. Fusionnez leurs skins avec un champion existant ou supprimez-les.`,
+    skinCount: (count: number) => `${count} skin${count > 1 ? "s" : ""}`,
+    targetLabel: (name: string) => `Champion cible pour ${name}`,
+    chooseTarget: "Fusionner avec…",
+    merge: "Fusionner",
+    remove: "Supprimer",
+  },
+  account: {
+    connecting: "Connexion au client local...",
+    loaded: "Partie suivie : les données se mettent à jour toutes les quelques secondes.",
+    errors: {
+      notRunning: "Le client de jeu ne répond pas. Lance une partie : la page la détecte toute seule.",
+      tls: "Le navigateur n'a pas pu joindre le jeu directement : son certificat n'est sans doute pas accepté, ou aucune partie n'est lancée.",
+      noGame: "Aucune partie en cours. Lance une partie : la page la détecte toute seule.",
+      loading:
+        "Partie en cours de chargement, ou en spectateur : les données des joueurs ne sont pas encore disponibles.",
+      invalid: "Le client local a renvoyé des données inattendues.",
+      unexpected: "Impossible de joindre le client local Riot.",
+    },
+    eyebrow: "Compte connecté",
+    title: "Infos du client local",
+    intro:
+      "Cette page lit le client League en local si une partie est en cours. L’API publique Riot ne fournit pas l’inventaire de skins possédés.",
+    connectingButton: "Connexion…",
+    readButton: "Lire maintenant",
+    canReadTitle: "Ce que la page peut lire",
+    canReadBody:
+      "Riot expose le joueur actif, le Riot ID, le champion joué, le skinID, le niveau, les runes et quelques stats pendant une partie.",
+    cannotReadTitle: "Ce qu’elle ne peut pas lire",
+    cannotReadBody:
+      "La liste complète des skins possédés par un compte n’est pas exposée par l’API publique standard. Le suivi peut toutefois la lire dans le client League of Legends via le compagnon local (« Importer du client »).",
+    noData: "Aucune donnée",
+    riotId: "Riot ID",
+    accountLabel: "Compte",
+    level: "Niveau",
+    gold: "Gold",
+    champion: "Champion",
+    skinId: "Skin ID en jeu",
+    team: "Équipe",
+    profile: "Profil",
+    linkedToActive: (name: string) => `Lié au profil ${name}`,
+    switchToProfile: (name: string) => `Basculer sur le profil ${name}`,
+    linkToProfile: (name: string) => `Lier au profil ${name}`,
+    footer:
+      "Pour lire un compte hors partie, il faut passer par le client League local avec ses endpoints internes, ou par un backend Riot autorisé avec login RSO. L’API Live Client seule ne peut pas donner ces données hors game.",
+  },
+};
+
+export type Messages = typeof fr;
@@ -0,0 +1,173 @@
+import { findGameChampion, findGameSkin, type Champion } from "./collection";
+import { DEFAULT_PROFILE_ID } from "./profiles";
+
+const STORAGE_KEY = "lol-skins-tracker:played-games";
+const CURRENT_KEY = "lol-skins-tracker:current-game";
+const MAX_GAMES = 1000;
+
+const profileKey = (key: string, profileId: string): string =>
+  profileId === DEFAULT_PROFILE_ID ? key : `${key}:${profileId}`;
+
+/** A game the local player played, as recorded from the Live Client. */
+export type PlayedGame = {
+  /** ISO timestamp, worked out from the game clock at the first reading. */
+  startedAt: string;
+  championKey: string | null;
+  championName: string;
+  /** `skinID` from the Live Client; 0 is the base skin. */
+  skinNum: number;
+  /** `gameMode` from `gamestats`, e.g. "CLASSIC" or "ARAM". */
+  mode: string;
+  /** Seconds of game clock at the last reading. */
+  duration: number;
+};
+
+/** What one Live Client reading tells about the game in progress. */
+export type GameReading = {
+  championKey: string | null;
+  championName: string;
+  skinNum: number;
+  mode: string;
+  /** `gameTime` from `gamestats`, in seconds. */
+  gameTime: number;
+};
+
+export type SkinPlays = {
+  games: number;
+  lastPlayed: string;
+};
+
+const isPlayedGame = (value: unknown): value is PlayedGame => {
+  const game = value as Partial<PlayedGame> | null;
+  return (
+    typeof game?.startedAt === "string" &&
+    (game.championKey === null || typeof game.championKey === "string") &&
+    typeof game.championName === "string" &&
+    typeof game.skinNum === "number" &&
+    typeof game.mode === "string" &&
+    typeof game.duration === "number"
+  );
+};
+
+function readJson(key: string): unknown {
+  try {
+    return JSON.parse(window.localStorage.getItem(key) ?? "null");
+  } catch {
+    return null;
+  }
+}
+
+function writeJson(key: string, value: unknown): void {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // full storage: losing a game's record beats breaking the watcher
+  }
+}
+
+export function loadPlayedGames(profileId: string): PlayedGame[] {
+  if (typeof window === "undefined") {
+    return [];
+  }
+
+  const parsed = readJson(profileKey(STORAGE_KEY, profileId));
+  return Array.isArray(parsed) ? parsed.filter(isPlayedGame) : [];
+}
+
+export function removePlayedGames(profileId: string): void {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  window.localStorage.removeItem(profileKey(STORAGE_KEY, profileId));
+  window.localStorage.removeItem(profileKey(CURRENT_KEY, profileId));
+}
+
+/**
+ * Follows the game in progress from one reading to the next; `null` means
+ * `gamestats` says no game is running, and ends the game in progress. Polls
+ * that fail for other reasons must not be passed as `null`. The game in
+ * progress is stored too, so a game whose end the app didn't see (it was
+ * closed) is recorded at the next reading. A reading with a different
+ * champion, skin or mode, or an earlier clock, starts a new game. Returns the
+ * recorded games when one ended, `null` otherwise.
+ */
+export function trackGameReading(
+  profileId: string,
+  reading: GameReading | null,
+): PlayedGame[] | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+
+  const currentKey = profileKey(CURRENT_KEY, profileId);
+  const stored = readJson(currentKey);
+  const current = isPlayedGame(stored) ? stored : null;
+
+  const sameGame =
+    current !== null &&
+    reading !== null &&
+    current.championKey === reading.championKey &&
+    current.championName === reading.championName &&
+    current.skinNum === reading.skinNum &&
+    current.mode === reading.mode &&
+    Math.round(reading.gameTime) >= current.duration;
+
+  if (reading) {
+    const duration = Math.round(reading.gameTime);
+    const next: PlayedGame =
+      sameGame && current
+        ? { ...current, duration }
+        : {
+            startedAt: new Date(Date.now() - reading.gameTime * 1000).toISOString(),
+            championKey: reading.championKey,
+            championName: reading.championName,
+            skinNum: reading.skinNum,
+            mode: reading.mode,
+            duration,
+          };
+    writeJson(currentKey, next);
+  } else {
+    window.localStorage.removeItem(currentKey);
+  }
+
+  if (!current || sameGame) {
+    return null;
+  }
+
+  const games = [...loadPlayedGames(profileId), current].slice(-MAX_GAMES);
+  writeJson(profileKey(STORAGE_KEY, profileId), games);
+  return games;
+}
+
+/**
+ * How often each of `champion`'s skins was played, by skin id. Games played
+ * with a chroma count for its skin.
+ */
+export function skinPlays(
+  games: PlayedGame[],
+  champion: Champion,
+  labelOf: (champion: Champion) => string,
+): Map<string, SkinPlays> {
+  const plays = new Map<string, SkinPlays>();
+
+  for (const game of games) {
+    if (findGameChampion([champion], game, labelOf) !== champion) {
+      continue;
+    }
+
+    const found = findGameSkin(champion, game.skinNum);
+    if (!found) {
+      continue;
+    }
+
+    const seen = plays.get(found.skin.id);
+    plays.set(found.skin.id, {
+      games: (seen?.games ?? 0) + 1,
+      lastPlayed:
+        seen && seen.lastPlayed > game.startedAt ? seen.lastPlayed : game.startedAt,
+    });
+  }
+
+  return plays;
+}
@@ -0,0 +1,113 @@
+import { words, type Skin } from "./collection";
+import priceData from "./data/skinprices.json";
+
+export type SkinTier =
+  | "budget"
+  | "standard"
+  | "epic"
+  | "legendary"
+  | "ultimate"
+  | "mythic"
+  | "prestige"
+  | "transcendent";
+
+/** Tiers from cheapest to rarest; sorting by tier follows this order. */
+export const SKIN_TIERS: SkinTier[] = [
+  "budget",
+  "standard",
+  "epic",
+  "legendary",
+  "ultimate",
+  "mythic",
+  "prestige",
+  "transcendent",
+];
+
+type PriceTable = {
+  /** Day the table was last checked against the store, as `YYYY-MM-DD`. */
+  updated: string;
+  /**
+   * RP value of a tier. Mythic and prestige are converted from Mythic Essence
+   * and transcendent is a guess, so they don't follow the tier order.
+   */
+  tiers: Record<SkinTier, number>;
+  /** Data Dragon skin ids by tier. */
+  skins: Partial<Record<SkinTier, number[]>>;
+  /** Phrases that give a skin name its tier when the id isn't listed. */
+  patterns: Partial<Record<SkinTier, string[]>>;
+  /** Tier of each CommunityDragon rarity, for skins matched by neither. */
+  rarities: Record<string, SkinTier>;
+};
+
+const PRICES: PriceTable = priceData as PriceTable;
+
+export const PRICES_UPDATED = PRICES.updated;
+
+const TIER_BY_ID = new Map<number, SkinTier>(
+  SKIN_TIERS.flatMap((tier) => (PRICES.skins[tier] ?? []).map((id) => [id, tier] as const)),
+);
+
+// Rarest first, so "Hextech ... (Prestige)" reads as prestige.
+const TIER_PATTERNS = [...SKIN_TIERS].reverse().flatMap((tier) =>
+  (PRICES.patterns[tier] ?? []).map((phrase) => ({ tier, phrase: words(phrase) })),
+);
+
+type PricedSkin = Pick<Skin, "name" | "ddragonId" | "rarity">;
+
+/**
+ * Tier of a skin from the bundled price table: by Data Dragon id, then by
+ * name, then by the skin's rarity in the catalog. Tiers are looked up rather
+ * than stored so an updated table applies to existing collections. Returns
+ * `null` for skins the table doesn't cover.
+ */
+export function skinTier(skin: PricedSkin): SkinTier | null {
+  const byId = typeof skin.ddragonId === "number" ? TIER_BY_ID.get(skin.ddragonId) : undefined;
+  if (byId) return byId;
+
+  const text = words(skin.name);
+  const byName = TIER_PATTERNS.find(({ phrase }) => text.includes(phrase))?.tier;
+  if (byName) return byName;
+
+  return skin.rarity ? (PRICES.rarities[skin.rarity] ?? null) : null;
+}
+
+export const tierValue = (tier: SkinTier): number => PRICES.tiers[tier];
+
+export const skinValue = (skin: PricedSkin): number | null => {
+  const tier = skinTier(skin);
+  return tier ? tierValue(tier) : null;
+};
+
+/** Rarest tier among a group's variants, e.g. a skin and its prestige edition. */
+export function groupTier(variants: PricedSkin[]): SkinTier | null {
+  let rarest: SkinTier | null = null;
+  for (const variant of variants) {
+    const tier = skinTier(variant);
+    if (tier && (!rarest || SKIN_TIERS.indexOf(tier) > SKIN_TIERS.indexOf(rarest))) {
+      rarest = tier;
+    }
+  }
+  return rarest;
+}
+
+/** Rarest first, skins without a tier last. */
+export const compareTiers = (a: SkinTier | null, b: SkinTier | null): number =>
+  (b ? SKIN_TIERS.indexOf(b) : -1) - (a ? SKIN_TIERS.indexOf(a) : -1);
+
+export type TierFilter = SkinTier | "all" | "unpriced";
+
+export const matchesTierFilter = (tier: SkinTier | null, filter: TierFilter): boolean =>
+  filter === "all" || (filter === "unpriced" ? tier === null : tier === filter);
+
+/** Estimated RP value of the owned skins; unpriced ones are only counted. */
+export function collectionValue(skins: Skin[]): { rp: number; unpriced: number } {
+  let rp = 0;
+  let unpriced = 0;
+  for (const skin of skins) {
+    if (skin.status !== "owned") continue;
+    const value = skinValue(skin);
+    if (value === null) unpriced += 1;
+    else rp += value;
+  }
+  return { rp, unpriced };
+}
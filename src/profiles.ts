@@ -0,0 +1,147 @@
+import { uid } from "./collection";
+
+export type Profile = {
+  id: string;
+  /** Empty for the default profile until it's renamed; see `profileName`. */
+  name: string;
+  /** Riot ID (`name#tag`) the profile follows on the connected account page. */
+  riotId?: string;
+};
+
+export type ProfileState = {
+  activeId: string;
+  profiles: Profile[];
+};
+
+const PROFILES_KEY = "lol-skins-tracker:profiles";
+
+/**
+ * The profile that owns the collection saved before profiles existed. Its
+ * collection stays under the original storage key.
+ */
+export const DEFAULT_PROFILE_ID = "default";
+
+// Name the default profile was saved with before it followed the locale.
+const LEGACY_DEFAULT_NAME = "Principal";
+
+const defaultState = (): ProfileState => ({
+  activeId: DEFAULT_PROFILE_ID,
+  profiles: [{ id: DEFAULT_PROFILE_ID, name: "" }],
+});
+
+/** The name to show, `defaultName` (`t.profiles.defaultName`) if it has none. */
+export const profileName = (profile: Profile, defaultName: string): string =>
+  profile.name || defaultName;
+
+function sanitizeName(profile: Profile): string {
+  const name = profile.name.trim();
+  if (profile.id === DEFAULT_PROFILE_ID) {
+    return name === LEGACY_DEFAULT_NAME ? "" : name;
+  }
+  return name || profile.id;
+}
+
+function sanitizeProfiles(input: unknown): ProfileState {
+  const candidate = input as Partial<ProfileState> | null;
+  if (!candidate || typeof candidate !== "object" || !Array.isArray(candidate.profiles)) {
+    return defaultState();
+  }
+
+  const profiles = candidate.profiles
+    .filter(
+      (profile): profile is Profile =>
+        Boolean(profile) &&
+        typeof profile.id === "string" &&
+        profile.id.trim().length > 0 &&
+        typeof profile.name === "string",
+    )
+    .map((profile) => ({
+      id: profile.id,
+      name: sanitizeName(profile),
+      riotId: typeof profile.riotId === "string" ? profile.riotId : undefined,
+    }));
+
+  if (profiles.length === 0) {
+    return defaultState();
+  }
+
+  const activeId = profiles.some((profile) => profile.id === candidate.activeId)
+    ? (candidate.activeId as string)
+    : profiles[0].id;
+
+  return { activeId, profiles };
+}
+
+export function loadProfiles(): ProfileState {
+  if (typeof window === "undefined") {
+    return defaultState();
+  }
+
+  try {
+    const raw = window.localStorage.getItem(PROFILES_KEY);
+    return raw ? sanitizeProfiles(JSON.parse(raw)) : defaultState();
+  } catch {
+    return defaultState();
+  }
+}
+
+export function saveProfiles(state: ProfileState): void {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  try {
+    window.localStorage.setItem(PROFILES_KEY, JSON.stringify(state));
+  } catch {
+    // the profile list is tiny; a failure here means storage is already full,
+    // which the collection save reports
+  }
+}
+
+export function addProfile(state: ProfileState, name: string): ProfileState {
+  const profile: Profile = { id: `profile_${uid()}`, name: name.trim() };
+  return { activeId: profile.id, profiles: [...state.profiles, profile] };
+}
+
+export function updateProfile(
+  state: ProfileState,
+  id: string,
+  changes: Partial<Omit<Profile, "id">>,
+): ProfileState {
+  return {
+    ...state,
+    profiles: state.profiles.map((profile) =>
+      profile.id === id ? { ...profile, ...changes } : profile,
+    ),
+  };
+}
+
+export function removeProfile(state: ProfileState, id: string): ProfileState {
+  const profiles = state.profiles.filter((profile) => profile.id !== id);
+  if (profiles.length === 0) {
+    return state;
+  }
+
+  return {
+    activeId: state.activeId === id ? profiles[0].id : state.activeId,
+    profiles,
+  };
+}
+
+/** Links a Riot ID to one profile, unlinking it from any other. */
+export function linkRiotId(
+  state: ProfileState,
+  id: string,
+  riotId: string,
+): ProfileState {
+  return {
+    ...state,
+    profiles: state.profiles.map((profile) =>
+      profile.id === id
+        ? { ...profile, riotId }
+        : profile.riotId === riotId
+          ? { ...profile, riotId: undefined }
+          : profile,
+    ),
+  };
+}
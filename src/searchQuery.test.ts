@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import type { Champion, Skin } from "./collection";
+import { championMatches, findMatch, parseQuery } from "./searchQuery";
+
+const skin = (name: string, status: Skin["status"], ddragonId?: number): Skin => ({
+  id: name,
+  name,
+  status,
+  chromas: [],
+  ddragonId,
+});
+
+const AHRI: Champion = {
+  id: "champ_ahri",
+  name: "Ahri",
+  key: "Ahri",
+  skins: [
+    skin("Arcade Ahri", "owned", 103015),
+    skin("Star Guardian Ahri", "wishlist", 103027),
+    skin("Dynasty Ahri", "owned"),
+  ],
+};
+
+const WUKONG: Champion = {
+  id: "champ_wukong",
+  name: "Wukong",
+  key: "MonkeyKing",
+  skins: [skin("Volcanic Wukong", "ignored")],
+};
+
+const matches = (input: string, champion: Champion) =>
+  championMatches(parseQuery(input), champion, champion.name);
+
+describe("parseQuery", () => {
+  it("reads fields, negation and quoted phrases", () => {
+    expect(parseQuery('ahri skin:"star guardian" -owned:yes count:>=2')).toEqual({
+      terms: [
+        { kind: "text", value: "ahri", negated: false },
+        { kind: "skin", value: "star guardian", negated: false },
+        { kind: "owned", value: true, negated: true },
+        { kind: "count", comparison: ">=", value: 2, negated: false },
+      ],
+      invalid: [],
+    });
+  });
+
+  it("accepts French field names and localized values", () => {
+    expect(parseQuery("statut:souhaité rareté:épique possédé:non").terms).toEqual([
+      { kind: "status", value: "wishlist", negated: false },
+      { kind: "tier", value: "epic", negated: false },
+      { kind: "owned", value: false, negated: false },
+    ]);
+  });
+
+  it("searches unknown fields as plain text", () => {
+    expect(parseQuery("-color:red").terms).toEqual([
+      { kind: "text", value: "color:red", negated: true },
+    ]);
+  });
+
+  it("reports values it can't read and ignores them", () => {
+    expect(parseQuery('owned:maybe tier:shiny count:lots status:"" -')).toEqual({
+      terms: [],
+      invalid: ["owned:maybe", "tier:shiny", "count:lots", 'status:""'],
+    });
+  });
+
+  it("keeps an unclosed quote up to the end of the input", () => {
+    expect(parseQuery('skin:"star guard').terms).toEqual([
+      { kind: "skin", value: "star guard", negated: false },
+    ]);
+  });
+});
+
+describe("findMatch", () => {
+  it("ignores case, accents and punctuation", () => {
+    expect(findMatch("Kai'Sa", "kaisa")).toEqual([0, 6]);
+    expect(findMatch("Légende immortalisée", "legende")).toEqual([0, 7]);
+  });
+
+  it("allows one typo from four characters and two from eight", () => {
+    expect(findMatch("Arcade Ahri", "arcde")).toEqual([0, 6]);
+    expect(findMatch("Arcade Ahri", "arcdae")).toBeNull();
+    expect(findMatch("Star Guardian Ahri", "guardain")).toEqual([5, 13]);
+    expect(findMatch("Star Guardian Ahri", "gaurdain")).toBeNull();
+  });
+
+  it("doesn't allow typos below four characters", () => {
+    expect(findMatch("Ahri", "ahr")).toEqual([0, 3]);
+    expect(findMatch("Ahri", "ari")).toBeNull();
+  });
+
+  it("matches a typo across words and the start of longer words", () => {
+    expect(findMatch("Star Guardian Ahri", "starguardain")).toEqual([0, 13]);
+    expect(findMatch("Star Guardian Ahri", "guar")).toEqual([5, 9]);
+  });
+});
+
+describe("championMatches", () => {
+  it("matches plain text against champion and skin names", () => {
+    expect(matches("ahri", AHRI)).toBe(true);
+    expect(matches("dynasty", AHRI)).toBe(true);
+    expect(matches("monkeyking", WUKONG)).toBe(true);
+    expect(matches("dynasty", WUKONG)).toBe(false);
+  });
+
+  it("checks skin terms against a single skin", () => {
+    expect(matches('skin:"star guardian" status:wishlist', AHRI)).toBe(true);
+    expect(matches('skin:"star guardian" owned:yes', AHRI)).toBe(false);
+    expect(matches("skin:arcade owned:yes", AHRI)).toBe(true);
+  });
+
+  it("inverts negated terms", () => {
+    expect(matches("-ahri", AHRI)).toBe(false);
+    expect(matches("-ahri", WUKONG)).toBe(true);
+    expect(matches("-owned:yes", WUKONG)).toBe(true);
+    expect(matches("skin:dynasty -status:owned", AHRI)).toBe(false);
+  });
+
+  it("compares the number of owned skins", () => {
+    expect(matches("count:2", AHRI)).toBe(true);
+    expect(matches("count:>2", AHRI)).toBe(false);
+    expect(matches("count:<1", WUKONG)).toBe(true);
+  });
+
+  it("ignores invalid terms", () => {
+    expect(matches("ahri owned:maybe", AHRI)).toBe(true);
+  });
+});
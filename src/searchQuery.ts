@@ -0,0 +1,342 @@
+import {
+  groupSkins,
+  groupStatus,
+  normalize,
+  SKIN_STATUSES,
+  type Champion,
+  type Skin,
+  type SkinStatus,
+} from "./collection";
+import { LOCALES, messagesFor, type Locale } from "./i18n";
+import { groupTier, SKIN_TIERS, type SkinTier } from "./pricing";
+
+type Comparison = ">" | ">=" | "<" | "<=" | "=";
+
+/**
+ * One term of a search. `text` and `champ` are champion-level; `skin`,
+ * `owned`, `status` and `tier` are checked against each skin group, and a
+ * champion matches when one of its groups passes all of them.
+ */
+export type SearchTerm = { negated: boolean } & (
+  | { kind: "text"; value: string }
+  | { kind: "champ"; value: string }
+  | { kind: "skin"; value: string }
+  | { kind: "owned"; value: boolean }
+  | { kind: "status"; value: SkinStatus }
+  | { kind: "tier"; value: SkinTier | "unpriced" }
+  | { kind: "count"; comparison: Comparison; value: number }
+);
+
+export type SearchQuery = {
+  terms: SearchTerm[];
+  /** Structured terms whose value couldn't be read, as typed; they are ignored. */
+  invalid: string[];
+};
+
+type TextTerm = Extract<SearchTerm, { kind: "text" | "champ" | "skin" }>;
+
+type SkinGroup = { display: string; variants: Skin[] };
+
+const FIELD_ALIASES: Record<string, "champ" | "skin" | "owned" | "status" | "tier" | "count"> = {
+  champ: "champ",
+  champion: "champ",
+  skin: "skin",
+  owned: "owned",
+  possede: "owned",
+  status: "status",
+  statut: "status",
+  tier: "tier",
+  rarete: "tier",
+  count: "count",
+  nombre: "count",
+};
+
+const YES = new Set(["yes", "y", "true", "1", "oui", "o"]);
+const NO = new Set(["no", "n", "false", "0", "non"]);
+
+// Status and tier values are accepted as keys or as their label in any locale.
+function aliasesOf<T extends string>(
+  keys: readonly T[],
+  labelOf: (key: T, locale: Locale) => string,
+): Map<string, T> {
+  const aliases = new Map<string, T>();
+  for (const key of keys) {
+    aliases.set(normalize(key), key);
+    for (const { value } of LOCALES) {
+      aliases.set(normalize(labelOf(key, value)), key);
+    }
+  }
+  return aliases;
+}
+
+const STATUS_ALIASES = aliasesOf(
+  SKIN_STATUSES,
+  (status, locale) => messagesFor(locale).status[status],
+);
+const TIER_ALIASES = aliasesOf<SkinTier | "unpriced">(
+  [...SKIN_TIERS, "unpriced"],
+  (tier, locale) =>
+    tier === "unpriced" ? messagesFor(locale).tiers.unpriced : messagesFor(locale).tiers.names[tier],
+);
+
+// A term is an optional "-", an optional "field:", then a quoted phrase or a word.
+const TERM = /(-?)(?:([\p{L}]+):)?(?:"([^"]*)"?|(\S+))/gu;
+
+/**
+ * Reads a search like `ahri skin:"star guardian" -owned:yes count:>5`.
+ * Unknown fields are searched as plain text.
+ */
+export function parseQuery(input: string): SearchQuery {
+  const terms: SearchTerm[] = [];
+  const invalid: string[] = [];
+
+  for (const match of input.matchAll(TERM)) {
+    const [raw, dash, rawField, quoted, word] = match;
+    const negated = dash === "-";
+    const value = (quoted ?? word ?? "").trim();
+    const field = rawField ? FIELD_ALIASES[normalize(rawField)] : undefined;
+
+    if (rawField && !field) {
+      terms.push({ kind: "text", value: raw.replace(/^-/, ""), negated });
+      continue;
+    }
+
+    // a lone "-" or an empty field searches for nothing
+    if (!normalize(value)) {
+      if (rawField) invalid.push(raw);
+      continue;
+    }
+
+    switch (field) {
+      case undefined:
+        terms.push({ kind: "text", value, negated });
+        break;
+      case "champ":
+      case "skin":
+        terms.push({ kind: field, value, negated });
+        break;
+      case "owned": {
+        const key = normalize(value);
+        if (YES.has(key) || NO.has(key)) {
+          terms.push({ kind: "owned", value: YES.has(key), negated });
+        } else {
+          invalid.push(raw);
+        }
+        break;
+      }
+      case "status": {
+        const status = STATUS_ALIASES.get(normalize(value));
+        if (status) terms.push({ kind: "status", value: status, negated });
+        else invalid.push(raw);
+        break;
+      }
+      case "tier": {
+        const tier = TIER_ALIASES.get(normalize(value));
+        if (tier) terms.push({ kind: "tier", value: tier, negated });
+        else invalid.push(raw);
+        break;
+      }
+      case "count": {
+        const parts = /^(>=|<=|>|<|=)?(\d+)$/.exec(value);
+        if (parts) {
+          const comparison = (parts[1] ?? "=") as Comparison;
+          terms.push({ kind: "count", comparison, value: Number(parts[2]), negated });
+        } else {
+          invalid.push(raw);
+        }
+        break;
+      }
+    }
+  }
+
+  return { terms, invalid };
+}
+
+/** Normalized text plus, for each of its characters, where it came from. */
+function indexText(text: string): { normalized: string; origins: number[] } {
+  let normalized = "";
+  const origins: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    for (const char of normalize(text[i])) {
+      normalized += char;
+      origins.push(i);
+    }
+  }
+  return { normalized, origins };
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Where `needle` appears in `text`, as `[start, end)` in `text`: an accent-
+ * and punctuation-insensitive substring first, then, for needles of four
+ * characters or more, a run of words within one typo (two past eight
+ * characters) of the needle or of its start.
+ */
+export function findMatch(text: string, needle: string): [number, number] | null {
+  const wanted = normalize(needle);
+  if (!wanted) return null;
+
+  const { normalized, origins } = indexText(text);
+  const at = normalized.indexOf(wanted);
+  if (at !== -1) {
+    return [origins[at], origins[at + wanted.length - 1] + 1];
+  }
+
+  if (wanted.length < 4) return null;
+  const tolerance = wanted.length >= 8 ? 2 : 1;
+
+  const spans = [...text.matchAll(/[^\s\-'’.]+/g)].map((word) => ({
+    start: word.index,
+    end: word.index + word[0].length,
+    key: normalize(word[0]),
+  }));
+
+  for (let size = 1; size <= 3; size++) {
+    for (let i = 0; i + size <= spans.length; i++) {
+      const window = spans.slice(i, i + size);
+      const key = window.map((span) => span.key).join("");
+      if (
+        editDistance(wanted, key) <= tolerance ||
+        (key.length > wanted.length &&
+          editDistance(wanted, key.slice(0, wanted.length)) <= tolerance)
+      ) {
+        return [window[0].start, window[window.length - 1].end];
+      }
+    }
+  }
+
+  return null;
+}
+
+const matchesAny = (texts: string[], needle: string): boolean =>
+  texts.some((text) => findMatch(text, needle) !== null);
+
+const compare = (actual: number, comparison: Comparison, value: number): boolean => {
+  switch (comparison) {
+    case ">":
+      return actual > value;
+    case ">=":
+      return actual >= value;
+    case "<":
+      return actual < value;
+    case "<=":
+      return actual <= value;
+    case "=":
+      return actual === value;
+  }
+};
+
+const isSkinTerm = (term: SearchTerm): boolean =>
+  term.kind === "skin" || term.kind === "owned" || term.kind === "status" || term.kind === "tier";
+
+/** Whether a skin group passes the query's skin-level terms. */
+export function groupMatches(query: SearchQuery, group: SkinGroup): boolean {
+  const status = groupStatus(group.variants);
+  const names = [group.display, ...group.variants.map((variant) => variant.name)];
+
+  return query.terms.filter(isSkinTerm).every((term) => {
+    let hit: boolean;
+    switch (term.kind) {
+      case "skin":
+        hit = matchesAny(names, term.value);
+        break;
+      case "owned":
+        hit = (status === "owned") === term.value;
+        break;
+      case "status":
+        hit = status === term.value;
+        break;
+      case "tier":
+        hit = (groupTier(group.variants) ?? "unpriced") === term.value;
+        break;
+      default:
+        hit = true;
+    }
+    return hit !== term.negated;
+  });
+}
+
+/** `true` when the query has terms that pick out skins, not just champions. */
+export const hasSkinTerms = (query: SearchQuery): boolean => query.terms.some(isSkinTerm);
+
+/**
+ * Whether a champion passes every term. Plain text matches the champion's
+ * name or any of its skin names; `label` is the name shown in the UI.
+ */
+export function championMatches(query: SearchQuery, champion: Champion, label: string): boolean {
+  const names = [label, champion.name, champion.key ?? ""];
+  const groups = groupSkins(champion.skins);
+  const skinNames = champion.skins.map((skin) => skin.name);
+
+  const championLevel = query.terms.every((term) => {
+    let hit: boolean;
+    switch (term.kind) {
+      case "text":
+        hit = matchesAny(names, term.value) || matchesAny(skinNames, term.value);
+        break;
+      case "champ":
+        hit = matchesAny(names, term.value);
+        break;
+      case "count":
+        hit = compare(
+          groups.filter((group) => groupStatus(group.variants) === "owned").length,
+          term.comparison,
+          term.value,
+        );
+        break;
+      default:
+        return true;
+    }
+    return hit !== term.negated;
+  });
+
+  return (
+    championLevel &&
+    (!hasSkinTerms(query) || groups.some((group) => groupMatches(query, group)))
+  );
+}
+
+/**
+ * Parts of `text` to highlight for the query's positive terms of the given
+ * kinds, merged and in order.
+ */
+export function highlightRanges(
+  query: SearchQuery,
+  text: string,
+  kinds: TextTerm["kind"][],
+): [number, number][] {
+  const ranges = query.terms
+    .filter((term): term is TextTerm => !term.negated && (kinds as string[]).includes(term.kind))
+    .map((term) => findMatch(text, term.value))
+    .filter((range): range is [number, number] => range !== null)
+    .sort((a, b) => a[0] - b[0]);
+
+  const merged: [number, number][] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([...range]);
+  }
+  return merged;
+}
+
+/** Plain-text terms, used where only names can be searched (skin lines). */
+export const textTerms = (query: SearchQuery): string[] =>
+  query.terms
+    .filter((term): term is TextTerm => term.kind === "text" && !term.negated)
+    .map((term) => term.value);
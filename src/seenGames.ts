@@ -0,0 +1,156 @@
+import { DEFAULT_PROFILE_ID } from "./profiles";
+
+const STORAGE_KEY = "lol-skins-tracker:seen-games";
+// Oldest games are dropped past this; a lineup is ten small entries.
+const MAX_GAMES = 500;
+
+const gamesKey = (profileId: string): string =>
+  profileId === DEFAULT_PROFILE_ID ? STORAGE_KEY : `${STORAGE_KEY}:${profileId}`;
+
+export type SeenPlayer = {
+  /** Data Dragon champion id (e.g. "MonkeyKing"), when the client gave one. */
+  championKey: string | null;
+  championName: string;
+  /** Skin number within the champion; 0 is the base skin. */
+  skinNum: number;
+  team?: string;
+};
+
+/** One game's lineup, as read from the Live Client. */
+export type SeenGame = {
+  /** ISO timestamp of the first reading of the game. */
+  recordedAt: string;
+  players: SeenPlayer[];
+};
+
+/** A skin and how often it showed up across the recorded games. */
+export type SeenSkin = {
+  championKey: string | null;
+  championName: string;
+  skinNum: number;
+  /** Number of games it was in, counting each game once. */
+  games: number;
+  lastSeen: string;
+};
+
+const isSeenPlayer = (value: unknown): value is SeenPlayer => {
+  const player = value as Partial<SeenPlayer> | null;
+  return (
+    typeof player?.championName === "string" &&
+    typeof player.skinNum === "number" &&
+    (player.championKey === null || typeof player.championKey === "string")
+  );
+};
+
+const isSeenGame = (value: unknown): value is SeenGame => {
+  const game = value as Partial<SeenGame> | null;
+  return (
+    typeof game?.recordedAt === "string" &&
+    Array.isArray(game.players) &&
+    game.players.every(isSeenPlayer)
+  );
+};
+
+export function loadSeenGames(profileId: string): SeenGame[] {
+  if (typeof window === "undefined") {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(gamesKey(profileId)) ?? "[]");
+    return Array.isArray(parsed) ? parsed.filter(isSeenGame) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveSeenGames(profileId: string, games: SeenGame[]): void {
+  try {
+    window.localStorage.setItem(gamesKey(profileId), JSON.stringify(games.slice(-MAX_GAMES)));
+  } catch {
+    // full storage: the log is a nice-to-have, the collection matters more
+  }
+}
+
+export function removeSeenGames(profileId: string): void {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  window.localStorage.removeItem(gamesKey(profileId));
+}
+
+const playerKey = (player: SeenPlayer): string =>
+  `${player.championKey ?? player.championName}:${player.skinNum}`;
+
+const lineupKey = (players: SeenPlayer[]): string =>
+  players
+    .map((player) => `${player.team ?? ""}/${playerKey(player)}`)
+    .sort()
+    .join(",");
+
+/**
+ * Adds a game's lineup to the log. The Live Client is read several times per
+ * game, so a lineup identical to the last recorded one is taken for the same
+ * game and left out. Returns the log, or `null` when nothing was added.
+ */
+export function recordSeenGame(profileId: string, players: SeenPlayer[]): SeenGame[] | null {
+  if (typeof window === "undefined" || players.length === 0) {
+    return null;
+  }
+
+  const games = loadSeenGames(profileId);
+  const last = games[games.length - 1];
+  if (last && lineupKey(last.players) === lineupKey(players)) {
+    return null;
+  }
+
+  const next = [
+    ...games,
+    {
+      recordedAt: new Date().toISOString(),
+      players: players.map(({ championKey, championName, skinNum, team }) => ({
+        championKey,
+        championName,
+        skinNum,
+        team,
+      })),
+    },
+  ];
+  saveSeenGames(profileId, next);
+  return next;
+}
+
+/** Skins other than base skins, most seen first, then most recently seen. */
+export function summarizeSeenSkins(games: SeenGame[]): SeenSkin[] {
+  const byKey = new Map<string, SeenSkin>();
+
+  for (const game of games) {
+    const inGame = new Set<string>();
+    for (const player of game.players) {
+      const key = playerKey(player);
+      if (player.skinNum === 0 || inGame.has(key)) {
+        continue;
+      }
+      inGame.add(key);
+
+      const seen = byKey.get(key);
+      if (seen) {
+        seen.games += 1;
+        if (game.recordedAt > seen.lastSeen) seen.lastSeen = game.recordedAt;
+      } else {
+        byKey.set(key, {
+          championKey: player.championKey,
+          championName: player.championName,
+          skinNum: player.skinNum,
+          games: 1,
+          lastSeen: game.recordedAt,
+        });
+      }
+    }
+  }
+
+  return [...byKey.values()].sort(
+    (a, b) => b.games - a.games || b.lastSeen.localeCompare(a.lastSeen),
+  );
+}
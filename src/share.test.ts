@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import type { CatalogSkin, Champion, Skin } from "./collection";
+import { buildSharedChampions, decodeShare, encodeShare } from "./share";
+import { StorageError } from "./storage";
+
+const skin = (num: number, status: Skin["status"] = "owned"): Skin => ({
+  id: `skin_${num}`,
+  name: `Skin ${num}`,
+  status,
+  chromas: [],
+  num,
+});
+
+const CHAMPIONS: Champion[] = [
+  {
+    id: "champ_ahri",
+    name: "Ahri",
+    key: "Ahri",
+    skins: [skin(1), skin(14), skin(27), skin(2, "wishlist")],
+  },
+  { id: "champ_lux", name: "Lux", key: "Lux", skins: [skin(1)] },
+  { id: "champ_zed", name: "Zed", key: "Zed", skins: [skin(1, "unknown")] },
+];
+
+// Encoded from CHAMPIONS (without compression) when links were at version 1.
+// It must keep decoding to the same skins whatever the catalog adds since.
+const PINNED_PAYLOAD = "uMTtNYSUyMGNvbGxlY3Rpb247QWhyaTpBa0FBQ0EsTHV4OkFn";
+
+/** An uncompressed payload holding `text` as is. */
+const rawPayload = (text: string) =>
+  `u${btoa(text).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")}`;
+
+const catalogSkin = (num: number, name: string): CatalogSkin => ({
+  ddragonId: 103000 + num,
+  num,
+  name,
+  chromas: [],
+});
+
+async function errorCode(request: Promise<unknown>) {
+  const error = await request.then(
+    () => null,
+    (reason: unknown) => reason,
+  );
+  expect(error).toBeInstanceOf(StorageError);
+  return (error as StorageError).code;
+}
+
+describe("share links", () => {
+  it("decode to the owned skins they were encoded from", async () => {
+    const { payload, skipped } = await encodeShare(CHAMPIONS, "Ma collection");
+    const shared = await decodeShare(payload);
+
+    expect(skipped).toBe(0);
+    expect(shared.name).toBe("Ma collection");
+    expect(shared.owned).toEqual(
+      new Map([
+        ["Ahri", new Set([1, 14, 27])],
+        ["Lux", new Set([1])],
+      ]),
+    );
+  });
+
+  it("skip owned skins without a catalog number", async () => {
+    const { skipped } = await encodeShare(
+      [{ id: "champ_ahri", name: "Ahri", key: "Ahri", skins: [{ ...skin(1), num: undefined }] }],
+      "",
+    );
+
+    expect(skipped).toBe(1);
+  });
+
+  it("decode a link made before newer skins and champions", async () => {
+    const shared = await decodeShare(PINNED_PAYLOAD);
+    const champions = await buildSharedChampions(shared, [], async (key) =>
+      key === "Ahri"
+        ? [1, 2, 14, 27, 86].map((num) => catalogSkin(num, `Ahri ${num}`))
+        : [],
+    );
+
+    expect(shared.name).toBe("Ma collection");
+    expect(champions.map((champion) => champion.key)).toEqual(["Ahri", "Lux"]);
+    expect(champions[0].skins.map((s) => [s.num, s.name, s.status])).toEqual([
+      [1, "Ahri 1", "owned"],
+      [2, "Ahri 2", "unknown"],
+      [14, "Ahri 14", "owned"],
+      [27, "Ahri 27", "owned"],
+      [86, "Ahri 86", "unknown"],
+    ]);
+    // without a catalog the number is kept so the skin isn't lost
+    expect(champions[1].skins.map((s) => [s.num, s.name, s.status])).toEqual([
+      [1, "#1", "owned"],
+    ]);
+  });
+
+  it("reject payloads that can't be read", async () => {
+    expect(await errorCode(decodeShare("xMTs7"))).toBe("parse");
+    expect(await errorCode(decodeShare("u!!!"))).toBe("parse");
+    expect(await errorCode(decodeShare("zAAAA"))).toBe("parse");
+  });
+
+  it("reject malformed entries", async () => {
+    expect(await errorCode(decodeShare(rawPayload("1;;Ahri")))).toBe("format");
+    expect(await errorCode(decodeShare(rawPayload("1;;Ahri:A")))).toBe("format");
+    expect(await errorCode(decodeShare(rawPayload("0;;Ahri:Ag")))).toBe("format");
+    expect(await errorCode(decodeShare(rawPayload("not a link")))).toBe("format");
+  });
+
+  it("reject links from a newer version", async () => {
+    expect(await errorCode(decodeShare(rawPayload("2;;Ahri:Ag")))).toBe("newer");
+  });
+});
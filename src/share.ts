@@ -0,0 +1,200 @@
+import { uid, type CatalogSkin, type Champion, type Skin } from "./collection";
+import { StorageError } from "./storage";
+
+/**
+ * Share links carry owned skins only, as one bitset per champion indexed by
+ * skin `num` and keyed by the Data Dragon champion id. Both are fixed once a
+ * skin ships, so a link keeps decoding to the same skins after later patches
+ * add champions or skins. Skins without a catalog id can't be shared.
+ */
+const SHARE_VERSION = 1;
+const FRAGMENT_PREFIX = "#share=";
+
+export type SharedCollection = {
+  name: string;
+  /** Owned skin nums by champion key. */
+  owned: Map<string, Set<number>>;
+};
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function toBitset(nums: number[]): Uint8Array {
+  const bits = new Uint8Array(Math.floor(Math.max(...nums) / 8) + 1);
+  for (const num of nums) {
+    bits[Math.floor(num / 8)] |= 1 << num % 8;
+  }
+  return bits;
+}
+
+function fromBitset(bits: Uint8Array): Set<number> {
+  const nums = new Set<number>();
+  bits.forEach((byte, index) => {
+    for (let bit = 0; bit < 8; bit += 1) {
+      if (byte & (1 << bit)) nums.add(index * 8 + bit);
+    }
+  });
+  return nums;
+}
+
+const canCompress = (): boolean =>
+  typeof CompressionStream !== "undefined" && typeof DecompressionStream !== "undefined";
+
+async function pipeThrough(
+  bytes: Uint8Array,
+  stream: CompressionStream | DecompressionStream,
+): Promise<Uint8Array> {
+  const piped = new Blob([bytes as BlobPart]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(piped).arrayBuffer());
+}
+
+/** Encodes the owned skins into the payload of a share fragment. */
+export async function encodeShare(
+  champions: Champion[],
+  name: string,
+): Promise<{ payload: string; skipped: number }> {
+  let skipped = 0;
+  const entries: string[] = [];
+
+  for (const champion of [...champions].sort((a, b) =>
+    (a.key ?? "").localeCompare(b.key ?? ""),
+  )) {
+    const owned = champion.skins.filter((skin) => skin.status === "owned");
+    const nums = owned
+      .map((skin) => skin.num)
+      .filter((num): num is number => typeof num === "number" && num > 0);
+    skipped += champion.key ? owned.length - nums.length : owned.length;
+
+    if (champion.key && nums.length > 0) {
+      entries.push(`${champion.key}:${toBase64Url(toBitset(nums))}`);
+    }
+  }
+
+  const text = `${SHARE_VERSION};${encodeURIComponent(name)};${entries.join(",")}`;
+  const bytes = new TextEncoder().encode(text);
+
+  // "z" payloads are deflated; browsers without compression streams send "u"
+  const payload = canCompress()
+    ? `z${toBase64Url(await pipeThrough(bytes, new CompressionStream("deflate-raw")))}`
+    : `u${toBase64Url(bytes)}`;
+
+  return { payload, skipped };
+}
+
+export async function decodeShare(payload: string): Promise<SharedCollection> {
+  let text: string;
+  try {
+    const bytes = fromBase64Url(payload.slice(1));
+    if (payload[0] === "z") {
+      text = new TextDecoder().decode(
+        await pipeThrough(bytes, new DecompressionStream("deflate-raw")),
+      );
+    } else if (payload[0] === "u") {
+      text = new TextDecoder().decode(bytes);
+    } else {
+      throw new Error("unknown encoding");
+    }
+  } catch {
+    throw new StorageError("parse", "unreadable share link");
+  }
+
+  const [version, name, entries = ""] = text.split(";");
+  if (Number(version) > SHARE_VERSION) {
+    throw new StorageError("newer", `share link version ${version} is newer than ${SHARE_VERSION}`);
+  }
+  if (Number(version) !== SHARE_VERSION) {
+    throw new StorageError("format", "unrecognized share link");
+  }
+
+  const owned = new Map<string, Set<number>>();
+  for (const entry of entries.split(",").filter(Boolean)) {
+    const match = /^([A-Za-z0-9]+):([A-Za-z0-9_-]+)$/.exec(entry);
+    if (!match) {
+      throw new StorageError("format", `invalid share entry "${entry}"`);
+    }
+    let bits: Uint8Array;
+    try {
+      bits = fromBase64Url(match[2]);
+    } catch {
+      throw new StorageError("format", `invalid share entry "${entry}"`);
+    }
+    owned.set(match[1], fromBitset(bits));
+  }
+
+  let decodedName = "";
+  try {
+    decodedName = decodeURIComponent(name ?? "");
+  } catch {
+    // keep the collection even if the label is mangled
+  }
+
+  return { name: decodedName, owned };
+}
+
+export const shareUrl = (payload: string): string =>
+  `${window.location.origin}${window.location.pathname}${FRAGMENT_PREFIX}${payload}`;
+
+export function readShareFragment(): string | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+
+  const { hash } = window.location;
+  return hash.startsWith(FRAGMENT_PREFIX) ? hash.slice(FRAGMENT_PREFIX.length) : null;
+}
+
+export function clearShareFragment(): void {
+  window.history.replaceState(null, "", `${window.location.pathname}${window.location.search}`);
+}
+
+/**
+ * Turns a decoded link into champions, naming skins from the catalog
+ * (`loadSkins`) or, failing that, from the local collection. Skins newer than
+ * either are kept as `#num` so nothing owned is lost.
+ */
+export async function buildSharedChampions(
+  shared: SharedCollection,
+  current: Champion[],
+  loadSkins: (key: string) => Promise<CatalogSkin[]>,
+): Promise<Champion[]> {
+  return Promise.all(
+    [...shared.owned.entries()].map(async ([key, nums]) => {
+      const local = current.find((champion) => champion.key === key);
+      const catalog = await loadSkins(key);
+      const known: Pick<Skin, "name" | "num" | "ddragonId" | "rarity">[] =
+        catalog.length > 0
+          ? catalog
+          : (local?.skins.filter((skin) => typeof skin.num === "number") ?? []);
+
+      const skins = known.map((skin): Skin => ({
+        id: uid(),
+        name: skin.name,
+        status: nums.has(skin.num as number) ? "owned" : "unknown",
+        chromas: [],
+        ddragonId: skin.ddragonId,
+        num: skin.num,
+        rarity: skin.rarity,
+      }));
+      for (const num of nums) {
+        if (!known.some((skin) => skin.num === num)) {
+          skins.push({ id: uid(), name: `#${num}`, status: "owned", chromas: [], num });
+        }
+      }
+
+      return {
+        id: local?.id ?? `champ_${key.toLowerCase()}`,
+        name: local?.name ?? key,
+        key,
+        skins,
+      };
+    }),
+  );
+}
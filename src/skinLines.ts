@@ -0,0 +1,169 @@
+import {
+  baseSkinName,
+  groupSkins,
+  groupStatus,
+  normalize,
+  words,
+  type Champion,
+  type SkinStatus,
+} from "./collection";
+import type { Locale } from "./i18n";
+import skinLineData from "./data/skinlines.json";
+
+type SkinLineData = {
+  id: string;
+  names: Record<Locale, string>;
+  /** Phrases that mark a skin name as part of the line, in every locale. */
+  patterns: string[];
+  /** Data Dragon skin ids whose names don't carry the line's name. */
+  skins: number[];
+};
+
+const SKIN_LINES: SkinLineData[] = skinLineData as SkinLineData[];
+
+export type SkinLineItem = {
+  championId: string;
+  /** Ids of the variants of one skin group, as `ChampionRow` groups them. */
+  skinIds: string[];
+  name: string;
+  status: SkinStatus;
+};
+
+export type SkinLine = {
+  id: string;
+  name: string;
+  /** `true` when the line was guessed from skin names, not the dataset. */
+  inferred: boolean;
+  items: SkinLineItem[];
+  owned: number;
+  /** Skins counted for completion: everything but ignored skins. */
+  total: number;
+};
+
+const PATTERNS = SKIN_LINES.map((line) => ({
+  id: line.id,
+  phrases: line.patterns.map(words),
+}));
+
+// Articles left at the edges once the champion name is taken out of a French
+// skin name ("Ahri de l'Arcade" -> "Arcade").
+const EDGE_ARTICLES = new Set(["de", "du", "des", "la", "le", "les", "the"]);
+
+/**
+ * Guesses a line from a skin name by removing the champion's name, e.g.
+ * "Hextech Annie" -> "Hextech". Returns `null` when nothing is left.
+ */
+function inferLineName(skinName: string, championNames: string[]): string | null {
+  const tokens = baseSkinName(skinName).split(/\s+/).filter(Boolean);
+  const keys = tokens.map(normalize);
+
+  for (const name of championNames) {
+    const nameKeys = name.split(/\s+/).map(normalize).filter(Boolean);
+    if (nameKeys.length === 0) continue;
+
+    const at = keys.findIndex((_, i) => nameKeys.every((key, j) => keys[i + j] === key));
+    if (at !== -1) {
+      tokens.splice(at, nameKeys.length);
+      keys.splice(at, nameKeys.length);
+      break;
+    }
+  }
+
+  while (keys.length > 0 && EDGE_ARTICLES.has(keys[0])) {
+    keys.shift();
+    tokens.shift();
+  }
+  while (keys.length > 0 && EDGE_ARTICLES.has(keys[keys.length - 1])) {
+    keys.pop();
+    tokens.pop();
+  }
+
+  const line = tokens.join(" ").replace(/^[dl]['’]/i, "").trim();
+  return line.length > 0 ? line : null;
+}
+
+/**
+ * Groups the collection's skins by line. Lines come from the bundled dataset
+ * (explicit skin ids, then name patterns); skins it doesn't cover are grouped
+ * by inferred name, and an inferred line is only kept when it spans at least
+ * two champions.
+ */
+export function buildSkinLines(
+  champions: Champion[],
+  locale: Locale,
+  labelOf: (champion: Champion) => string,
+): SkinLine[] {
+  const known = new Map<string, SkinLineItem[]>();
+  const inferred = new Map<string, { name: string; items: SkinLineItem[] }>();
+
+  for (const champion of champions) {
+    const championNames = [champion.name, labelOf(champion), champion.key ?? ""];
+
+    for (const group of groupSkins(champion.skins)) {
+      const item: SkinLineItem = {
+        championId: champion.id,
+        skinIds: group.variants.map((variant) => variant.id),
+        name: group.display,
+        status: groupStatus(group.variants),
+      };
+
+      const ids = group.variants
+        .map((variant) => variant.ddragonId)
+        .filter((id): id is number => typeof id === "number");
+      const text = words(group.display);
+      const lineIds = SKIN_LINES.filter(
+        (line) =>
+          line.skins.some((id) => ids.includes(id)) ||
+          PATTERNS.find((p) => p.id === line.id)?.phrases.some((phrase) =>
+            text.includes(phrase),
+          ),
+      ).map((line) => line.id);
+
+      if (lineIds.length > 0) {
+        for (const id of lineIds) {
+          known.set(id, [...(known.get(id) ?? []), item]);
+        }
+        continue;
+      }
+
+      const name = inferLineName(group.display, championNames);
+      if (!name) continue;
+      const key = normalize(name);
+      const entry = inferred.get(key) ?? { name, items: [] };
+      entry.items.push(item);
+      inferred.set(key, entry);
+    }
+  }
+
+  const summarize = (
+    id: string,
+    name: string,
+    items: SkinLineItem[],
+    isInferred: boolean,
+  ): SkinLine => {
+    const counted = items.filter((item) => item.status !== "ignored");
+    return {
+      id,
+      name,
+      inferred: isInferred,
+      items,
+      owned: counted.filter((item) => item.status === "owned").length,
+      total: counted.length,
+    };
+  };
+
+  const lines = [
+    ...SKIN_LINES.filter((line) => known.has(line.id)).map((line) =>
+      summarize(line.id, line.names[locale], known.get(line.id) ?? [], false),
+    ),
+    ...[...inferred.entries()]
+      .filter(
+        ([, entry]) => new Set(entry.items.map((item) => item.championId)).size >= 2,
+      )
+      .map(([key, entry]) =>
+        summarize(`inferred:${key}`, entry.name, entry.items, true),
+      ),
+  ];
+
+  return lines.sort((a, b) => a.name.localeCompare(b.name));
+}
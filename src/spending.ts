@@ -0,0 +1,60 @@
+import type { AcquisitionSource, Champion } from "./collection";
+
+export type SpendingRow = {
+  /** `YYYY-MM` for months, a source for sources; `null` when not recorded. */
+  key: string | null;
+  rp: number;
+  essence: number;
+  skins: number;
+};
+
+export type SpendingSummary = {
+  byMonth: SpendingRow[];
+  bySource: SpendingRow[];
+  total: SpendingRow;
+};
+
+const emptyRow = (key: string | null): SpendingRow => ({ key, rp: 0, essence: 0, skins: 0 });
+
+// Rows with a key come first in key order; the unrecorded bucket goes last.
+const sortRows = (rows: Iterable<SpendingRow>, descending: boolean): SpendingRow[] =>
+  [...rows].sort((a, b) =>
+    a.key === null ? 1 : b.key === null ? -1 : (descending ? -1 : 1) * a.key.localeCompare(b.key),
+  );
+
+/**
+ * Totals recorded acquisitions by month (latest first) and by source. Only
+ * owned skins count: a skin unchecked later keeps its acquisition, hidden,
+ * for when it's owned again.
+ */
+export function summarizeSpending(champions: Champion[]): SpendingSummary {
+  const byMonth = new Map<string | null, SpendingRow>();
+  const bySource = new Map<AcquisitionSource | null, SpendingRow>();
+  const total = emptyRow(null);
+
+  for (const skin of champions.flatMap((champion) => champion.skins)) {
+    const { acquisition } = skin;
+    if (!acquisition || skin.status !== "owned") continue;
+
+    const month = acquisition.date ? acquisition.date.slice(0, 7) : null;
+    const source = acquisition.source ?? null;
+    const monthRow = byMonth.get(month) ?? emptyRow(month);
+    const sourceRow = bySource.get(source) ?? emptyRow(source);
+
+    for (const row of [monthRow, sourceRow, total]) {
+      row.skins += 1;
+      if (acquisition.cost !== undefined) {
+        row[acquisition.currency ?? "rp"] += acquisition.cost;
+      }
+    }
+
+    byMonth.set(month, monthRow);
+    bySource.set(source, sourceRow);
+  }
+
+  return {
+    byMonth: sortRows(byMonth.values(), true),
+    bySource: sortRows(bySource.values(), false),
+    total,
+  };
+}
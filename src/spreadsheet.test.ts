@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+import type { Champion } from "./collection";
+import { formatTable, parseTable } from "./spreadsheet";
+import { StorageError } from "./storage";
+
+const CHAMPIONS: Champion[] = [
+  {
+    id: "champ_ahri",
+    name: "Ahri",
+    key: "Ahri",
+    skins: [
+      { id: "ahri_0", name: "Ahri", status: "owned", chromas: [], ddragonId: 103000, num: 0 },
+      {
+        id: "ahri_15",
+        name: "Arcade Ahri",
+        status: "wishlist",
+        chromas: [],
+        ddragonId: 103015,
+        num: 15,
+      },
+      {
+        id: "ahri_27",
+        name: "Star Guardian Ahri",
+        status: "owned",
+        chromas: [
+          { id: "103028", name: "Ruby", checked: true },
+          { id: "103029", name: "Pearl", checked: false },
+        ],
+        ddragonId: 103027,
+        num: 27,
+        acquisition: { date: "2024-03-02", source: "shop", cost: 1350, currency: "rp" },
+      },
+    ],
+  },
+  {
+    id: "champ_lux",
+    name: "Lux",
+    key: "Lux",
+    skins: [
+      { id: "lux_0", name: "Lux", status: "unknown", chromas: [], ddragonId: 99000, num: 0 },
+      {
+        id: "lux_1",
+        name: 'Sorceress Lux, "Classic"',
+        status: "ignored",
+        chromas: [],
+        ddragonId: 99001,
+        num: 1,
+      },
+    ],
+  },
+];
+
+const statuses = (champions: Champion[]) =>
+  champions.flatMap((champion) => champion.skins.map((skin) => [skin.name, skin.status]));
+
+describe("parseTable", () => {
+  it("reads back an export", () => {
+    for (const format of ["csv", "tsv"] as const) {
+      const { champions, skipped } = parseTable(formatTable(CHAMPIONS, format), CHAMPIONS);
+
+      expect(skipped).toEqual([]);
+      expect(champions).toEqual(CHAMPIONS);
+    }
+  });
+
+  it("reads quoted cells with delimiters, quotes and line breaks", () => {
+    const text = [
+      "champion,skin,status,chromas_owned",
+      'Lux,"Sorceress Lux, ""Classic""",owned,',
+      'Ahri,"Star Guardian\r\nAhri",wishlist,"Ruby; Pearl"',
+      "Teemo,Recon Teemo,owned,",
+    ].join("\r\n");
+
+    const { champions, skipped } = parseTable(text, CHAMPIONS);
+
+    expect(statuses(champions)).toEqual([
+      ["Star Guardian Ahri", "wishlist"],
+      ['Sorceress Lux, "Classic"', "owned"],
+    ]);
+    expect(champions[0].skins[0].chromas.map((chroma) => chroma.checked)).toEqual([true, true]);
+    // the quoted line break doesn't end the row
+    expect(skipped.map((row) => [row.champion, row.skin])).toEqual([["Teemo", "Recon Teemo"]]);
+  });
+
+  it("detects semicolon-separated sheets and skips a byte order mark", () => {
+    const text = "\uFEFFChampion;Skin;Status\nAhri;Arcade Ahri;owned\n";
+
+    const { champions } = parseTable(text, CHAMPIONS);
+
+    expect(statuses(champions)).toEqual([["Arcade Ahri", "owned"]]);
+  });
+
+  it("reads the yes/no owned column of older sheets", () => {
+    const text = "Champion,Skin,Possédé\nAhri,Arcade Ahri,oui\nAhri,Ahri,non\n";
+
+    const { champions } = parseTable(text, CHAMPIONS);
+
+    expect(statuses(champions)).toEqual([
+      ["Arcade Ahri", "owned"],
+      ["Ahri", "unknown"],
+    ]);
+  });
+
+  it("returns only the champions and skins a partial sheet lists", () => {
+    const text = "champion,skin,status\nLux,Lux,owned\nTeemo,Recon Teemo,owned\n";
+
+    const { champions, skipped } = parseTable(text, CHAMPIONS);
+
+    expect(champions.map((champion) => champion.id)).toEqual(["champ_lux"]);
+    expect(statuses(champions)).toEqual([["Lux", "owned"]]);
+    expect(skipped).toEqual([
+      { line: 3, champion: "Teemo", skin: "Recon Teemo", reason: "champion" },
+    ]);
+  });
+
+  it("leaves recorded acquisitions alone without acquisition columns", () => {
+    const text = "champion,skin,status\nAhri,Star Guardian Ahri,owned\n";
+
+    const { champions } = parseTable(text, CHAMPIONS);
+
+    expect(champions[0].skins[0].acquisition).toEqual(CHAMPIONS[0].skins[2].acquisition);
+  });
+
+  it("rejects a sheet without champion and skin columns", () => {
+    expect(() => parseTable("name,owned\nAhri,yes\n", CHAMPIONS)).toThrow(StorageError);
+  });
+});
+
+describe("formatTable", () => {
+  const risky: Champion[] = [
+    {
+      id: "champ_ahri",
+      name: "Ahri",
+      key: "Ahri",
+      skins: [
+        { id: "a", name: '=HYPERLINK("http://example.com")', status: "owned", chromas: [] },
+        { id: "b", name: "+1", status: "owned", chromas: [] },
+        { id: "c", name: "-1", status: "owned", chromas: [] },
+        { id: "d", name: "@SUM(A1)", status: "owned", chromas: [] },
+        { id: "e", name: "'=quoted", status: "owned", chromas: [] },
+      ],
+    },
+  ];
+
+  it("escapes cells that a spreadsheet would run as formulas", () => {
+    const names = formatTable(risky, "tsv")
+      .split("\r\n")
+      .slice(1)
+      .map((line) => line.split("\t")[2]);
+
+    expect(names).toEqual([
+      `'=HYPERLINK("http://example.com")`,
+      "'+1",
+      "'-1",
+      "'@SUM(A1)",
+      "''=quoted",
+    ]);
+  });
+
+  it("reads escaped cells back unchanged", () => {
+    for (const format of ["csv", "tsv"] as const) {
+      const { champions } = parseTable(formatTable(risky, format), risky);
+
+      expect(statuses(champions)).toEqual(statuses(risky));
+    }
+  });
+
+  it("keeps unescaped formula-like cells of hand-made sheets", () => {
+    const { champions } = parseTable("champion,skin,status\nAhri,+1,owned\n", risky);
+
+    expect(statuses(champions)).toEqual([["+1", "owned"]]);
+  });
+});
@@ -0,0 +1,335 @@
+import {
+  baseSkinName,
+  normalize,
+  sanitizeAcquisition,
+  sanitizeChampions,
+  type AcquisitionSource,
+  type Champion,
+  type Skin,
+  type SkinStatus,
+} from "./collection";
+import { StorageError } from "./storage";
+
+export type TableFormat = "csv" | "tsv";
+
+const DELIMITERS: Record<TableFormat, string> = { csv: ",", tsv: "\t" };
+
+const COLUMNS = [
+  "champion",
+  "champion_key",
+  "skin",
+  "skin_id",
+  "status",
+  "chromas_owned",
+  "acquired_on",
+  "source",
+  "cost",
+  "currency",
+] as const;
+
+// `owned` is the yes/no column of sheets made before statuses existed.
+type Column = (typeof COLUMNS)[number] | "owned";
+
+// Header spellings accepted on import, after `normalize` (so `Skin ID`,
+// `skin_id` and `skinid` are the same column).
+const COLUMN_ALIASES: Record<string, Column> = {
+  champion: "champion",
+  champ: "champion",
+  champion_key: "champion_key",
+  championkey: "champion_key",
+  key: "champion_key",
+  skin: "skin",
+  skin_id: "skin_id",
+  skinid: "skin_id",
+  id: "skin_id",
+  status: "status",
+  statut: "status",
+  owned: "owned",
+  possede: "owned",
+  possedee: "owned",
+  checked: "owned",
+  chromas_owned: "chromas_owned",
+  chromasowned: "chromas_owned",
+  chromas: "chromas_owned",
+  acquired_on: "acquired_on",
+  acquiredon: "acquired_on",
+  date: "acquired_on",
+  source: "source",
+  cost: "cost",
+  cout: "cost",
+  currency: "currency",
+  monnaie: "currency",
+};
+
+const OWNED_VALUES = new Set(["1", "x", "yes", "y", "oui", "o", "true", "vrai"]);
+
+// Accepted `status` cells, after `normalize`.
+const STATUS_VALUES: Record<string, SkinStatus> = {
+  owned: "owned",
+  possede: "owned",
+  wishlist: "wishlist",
+  souhait: "wishlist",
+  envie: "wishlist",
+  ignored: "ignored",
+  ignore: "ignored",
+  unknown: "unknown",
+  inconnu: "unknown",
+};
+
+// Accepted `source` cells, after `normalize`.
+const SOURCE_VALUES: Record<string, AcquisitionSource> = {
+  shop: "shop",
+  boutique: "shop",
+  hextech: "hextech",
+  pass: "pass",
+  eventpass: "pass",
+  prime: "prime",
+  primegaming: "prime",
+  gift: "gift",
+  cadeau: "gift",
+};
+
+/** Separates chroma names inside the `chromas_owned` cell. */
+const CHROMA_SEPARATOR = "; ";
+
+export type SkippedRow = {
+  /** 1-based line number in the file, header included. */
+  line: number;
+  champion: string;
+  skin: string;
+  reason: "champion" | "skin";
+  /** The matched champion's id, when only the skin wasn't found. */
+  championId?: string;
+};
+
+// Cells starting like this would run as formulas in a spreadsheet app; they're
+// exported behind a `'`, which the app hides and `parseTable` drops.
+const FORMULA_START = /^'*[=+\-@]/;
+
+function formatCell(value: string, format: TableFormat): string {
+  const safe = FORMULA_START.test(value) ? `'${value}` : value;
+  if (format === "tsv") {
+    return safe.replace(/[\t\r\n]+/g, " ");
+  }
+
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/** One row per skin with its status, owned chromas listed in the last column. */
+export function formatTable(champions: Champion[], format: TableFormat): string {
+  const rows: string[][] = [[...COLUMNS]];
+
+  for (const champion of champions) {
+    for (const skin of champion.skins) {
+      rows.push([
+        champion.name,
+        champion.key ?? "",
+        skin.name,
+        typeof skin.ddragonId === "number" ? String(skin.ddragonId) : "",
+        skin.status,
+        skin.chromas
+          .filter((chroma) => chroma.checked)
+          .map((chroma) => chroma.name)
+          .join(CHROMA_SEPARATOR),
+        skin.acquisition?.date ?? "",
+        skin.acquisition?.source ?? "",
+        skin.acquisition?.cost !== undefined ? String(skin.acquisition.cost) : "",
+        skin.acquisition?.cost !== undefined ? (skin.acquisition.currency ?? "rp") : "",
+      ]);
+    }
+  }
+
+  return rows
+    .map((row) => row.map((cell) => formatCell(cell, format)).join(DELIMITERS[format]))
+    .join("\r\n");
+}
+
+// RFC 4180 reader: quoted cells may hold delimiters, quotes and line breaks.
+function readRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && cell.length === 0) {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i += 1;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell.length > 0 || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Reads a CSV or TSV export (or a hand-made sheet with at least `champion`
+ * and `skin` columns) against the current collection. Rows are matched to
+ * champions by key or name and to skins by Data Dragon id or base name; the
+ * rows that match nothing are skipped and reported. Skins are only matched
+ * against those `current` lists; the caller loads the catalog of the
+ * champions named by `championId` in skipped rows and reads the file again.
+ * Only champions present in the file are returned, sanitized like a JSON
+ * import.
+ */
+export function parseTable(
+  text: string,
+  current: Champion[],
+): { champions: Champion[]; skipped: SkippedRow[] } {
+  const content = text.replace(/^\uFEFF/, "");
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = firstLine.includes("\t")
+    ? "\t"
+    : firstLine.includes(";") && !firstLine.includes(",")
+      ? ";"
+      : ",";
+  const [header, ...rows] = readRows(content, delimiter);
+
+  const columns = new Map<Column, number>();
+  (header ?? []).forEach((name, index) => {
+    const column = COLUMN_ALIASES[normalize(name).replace(/[^a-z_]/g, "")];
+    if (column && !columns.has(column)) {
+      columns.set(column, index);
+    }
+  });
+  if (!columns.has("champion") || !columns.has("skin")) {
+    throw new StorageError("format", "the table needs champion and skin columns");
+  }
+
+  const hasAcquisitionColumns = (["acquired_on", "source", "cost"] as const).some(
+    (column) => columns.has(column),
+  );
+
+  const cellOf = (row: string[], column: Column): string => {
+    const index = columns.get(column);
+    const cell = index === undefined ? "" : (row[index] ?? "").trim();
+    return cell.startsWith("'") && FORMULA_START.test(cell.slice(1)) ? cell.slice(1) : cell;
+  };
+
+  const byKey = new Map(
+    current
+      .filter((champion) => champion.key)
+      .map((champion) => [normalize(champion.key as string), champion] as const),
+  );
+  const byName = new Map(current.map((champion) => [normalize(champion.name), champion] as const));
+
+  const skinsByChampion = new Map<Champion, Skin[]>();
+  const skipped: SkippedRow[] = [];
+
+  rows.forEach((row, index) => {
+    const championName = cellOf(row, "champion");
+    const skinName = cellOf(row, "skin");
+    if (!championName && !skinName) {
+      return;
+    }
+
+    const line = index + 2;
+    const key = cellOf(row, "champion_key");
+    const champion =
+      (key ? byKey.get(normalize(key)) : undefined) ??
+      byName.get(normalize(championName)) ??
+      byKey.get(normalize(championName));
+    if (!champion) {
+      skipped.push({ line, champion: championName, skin: skinName, reason: "champion" });
+      return;
+    }
+
+    const skinId = Number(cellOf(row, "skin_id"));
+    const skin =
+      (Number.isFinite(skinId) && skinId > 0
+        ? champion.skins.find((s) => s.ddragonId === skinId)
+        : undefined) ??
+      champion.skins.find(
+        (s) => normalize(baseSkinName(s.name)) === normalize(baseSkinName(skinName)),
+      );
+    if (!skin) {
+      skipped.push({
+        line,
+        champion: championName,
+        skin: skinName,
+        reason: "skin",
+        championId: champion.id,
+      });
+      return;
+    }
+
+    const ownedChromas = new Set(
+      cellOf(row, "chromas_owned")
+        .split(CHROMA_SEPARATOR.trim())
+        .map((name) => normalize(name))
+        .filter(Boolean),
+    );
+
+    const skins = skinsByChampion.get(champion) ?? [];
+    skins.push({
+      ...skin,
+      status: columns.has("status")
+        ? (STATUS_VALUES[normalize(cellOf(row, "status"))] ??
+          (OWNED_VALUES.has(normalize(cellOf(row, "status"))) ? "owned" : "unknown"))
+        : OWNED_VALUES.has(normalize(cellOf(row, "owned")))
+          ? "owned"
+          : "unknown",
+      chromas: skin.chromas.map((chroma) => ({
+        ...chroma,
+        checked: ownedChromas.has(normalize(chroma.name)),
+      })),
+      // sheets without acquisition columns leave the recorded ones alone
+      acquisition: hasAcquisitionColumns
+        ? sanitizeAcquisition({
+            date: cellOf(row, "acquired_on"),
+            source: SOURCE_VALUES[normalize(cellOf(row, "source"))],
+            cost: cellOf(row, "cost")
+              ? Number(cellOf(row, "cost").replace(",", "."))
+              : undefined,
+            currency: cellOf(row, "currency")
+              ? normalize(cellOf(row, "currency")) === "essence"
+                ? "essence"
+                : "rp"
+              : undefined,
+          })
+        : skin.acquisition,
+    });
+    skinsByChampion.set(champion, skins);
+  });
+
+  const listed = [...skinsByChampion.entries()].map(([champion, skins]) => ({
+    ...champion,
+    skins,
+  }));
+  const names = new Set(listed.map((champion) => champion.name));
+
+  return {
+    // sanitizing also fills in the rest of the roster; only keep what the
+    // file actually lists so a partial sheet doesn't empty other champions
+    champions: sanitizeChampions(listed).filter((champion) => names.has(champion.name)),
+    skipped,
+  };
+}
@@ -0,0 +1,99 @@
+import { groupSkins, groupStatus, type Champion } from "./collection";
+import { groupTier, SKIN_TIERS } from "./pricing";
+import { summarizeSpending } from "./spending";
+
+/** Owned and counted skin groups for one bar of a chart. */
+export type StatBucket = {
+  key: string;
+  owned: number;
+  /** Skin groups counted for completion: everything but ignored ones. */
+  total: number;
+};
+
+export type ChampionStat = StatBucket & {
+  champion: Champion;
+};
+
+export type CollectionStats = {
+  champions: ChampionStat[];
+  /** One bucket per tier, then `unpriced`. */
+  tiers: StatBucket[];
+  /** One bucket per main role, then `none` for champions without one. */
+  roles: StatBucket[];
+};
+
+const addTo = (buckets: Map<string, StatBucket>, key: string, owned: boolean) => {
+  const bucket = buckets.get(key) ?? { key, owned: 0, total: 0 };
+  bucket.total += 1;
+  if (owned) bucket.owned += 1;
+  buckets.set(key, bucket);
+};
+
+/**
+ * Completion per champion, tier and role, counted in skin groups like the
+ * tracker's totals. `roleOf` gives a champion's main role, or `null` when the
+ * catalog doesn't know it.
+ */
+export function buildStats(
+  champions: Champion[],
+  roleOf: (champion: Champion) => string | null,
+): CollectionStats {
+  const tiers = new Map<string, StatBucket>(
+    [...SKIN_TIERS, "unpriced"].map((key) => [key, { key, owned: 0, total: 0 }]),
+  );
+  const roles = new Map<string, StatBucket>();
+  const stats: ChampionStat[] = [];
+
+  for (const champion of champions) {
+    const stat: ChampionStat = { key: champion.id, champion, owned: 0, total: 0 };
+    const role = roleOf(champion) ?? "none";
+
+    for (const group of groupSkins(champion.skins)) {
+      const status = groupStatus(group.variants);
+      if (status === "ignored") continue;
+
+      const owned = status === "owned";
+      stat.total += 1;
+      if (owned) stat.owned += 1;
+      addTo(tiers, groupTier(group.variants) ?? "unpriced", owned);
+      addTo(roles, role, owned);
+    }
+
+    stats.push(stat);
+  }
+
+  return {
+    champions: stats,
+    tiers: [...tiers.values()],
+    roles: [...roles.values()].sort((a, b) =>
+      a.key === "none" ? 1 : b.key === "none" ? -1 : a.key.localeCompare(b.key),
+    ),
+  };
+}
+
+const nextMonth = (month: string): string => {
+  const [year, index] = month.split("-").map(Number);
+  return index === 12
+    ? `${year + 1}-01`
+    : `${year}-${String(index + 1).padStart(2, "0")}`;
+};
+
+/**
+ * Dated acquisitions per month, oldest first, with the months in between
+ * filled in so a chart reads as a timeline.
+ */
+export function acquisitionsByMonth(champions: Champion[]): { month: string; skins: number }[] {
+  const counts = new Map(
+    summarizeSpending(champions)
+      .byMonth.filter((row) => row.key !== null)
+      .map((row) => [row.key as string, row.skins]),
+  );
+  const months = [...counts.keys()].sort();
+  if (months.length === 0) return [];
+
+  const timeline: { month: string; skins: number }[] = [];
+  for (let month = months[0]; month <= months[months.length - 1]; month = nextMonth(month)) {
+    timeline.push({ month, skins: counts.get(month) ?? 0 });
+  }
+  return timeline;
+}
@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  loadChampions,
+  migrateCollection,
+  parseCollection,
+  readBackups,
+  SCHEMA_VERSION,
+  StorageError,
+} from "./storage";
+
+const V1 = [
+  {
+    id: "champ_ahri",
+    name: "Ahri",
+    skins: [
+      { id: "a", name: "Arcade Ahri", checked: true, chromas: [] },
+      { id: "b", name: "Dynasty Ahri", checked: false, chromas: [] },
+    ],
+  },
+];
+
+const V3_SKINS = [
+  { id: "a", name: "Arcade Ahri", status: "owned", chromas: [] },
+  { id: "b", name: "Dynasty Ahri", status: "unknown", chromas: [] },
+];
+
+/** A `Storage` kept in memory, enough for the collection code. */
+function memoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (index) => [...items.keys()][index] ?? null,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, String(value)),
+    removeItem: (key) => void items.delete(key),
+    clear: () => items.clear(),
+  };
+}
+
+function errorCode(run: () => unknown) {
+  try {
+    run();
+  } catch (error) {
+    expect(error).toBeInstanceOf(StorageError);
+    return (error as StorageError).code;
+  }
+  throw new Error("expected a StorageError");
+}
+
+describe("migrateCollection", () => {
+  it("wraps a bare version 1 array and turns `checked` into a status", () => {
+    expect(migrateCollection(V1)).toEqual({
+      champions: [{ ...V1[0], skins: V3_SKINS }],
+      from: 1,
+    });
+  });
+
+  it("turns `checked` into a status from version 2", () => {
+    const { champions, from } = migrateCollection({ schemaVersion: 2, champions: V1 });
+
+    expect(from).toBe(2);
+    expect(champions).toEqual([{ ...V1[0], skins: V3_SKINS }]);
+  });
+
+  it("leaves the current version as is", () => {
+    const stored = { schemaVersion: SCHEMA_VERSION, champions: [{ ...V1[0], skins: V3_SKINS }] };
+
+    expect(migrateCollection(stored)).toEqual({ champions: stored.champions, from: 3 });
+  });
+
+  it("keeps malformed skins for sanitizing to drop", () => {
+    const { champions } = migrateCollection([{ name: "Ahri", skins: [null, "skin"] }]);
+
+    expect(champions).toEqual([{ name: "Ahri", skins: [null, "skin"] }]);
+  });
+
+  it("rejects data from a newer version", () => {
+    expect(errorCode(() => migrateCollection({ schemaVersion: SCHEMA_VERSION + 1 }))).toBe(
+      "newer",
+    );
+  });
+
+  it("rejects data that isn't a collection", () => {
+    expect(errorCode(() => migrateCollection({ champions: [] }))).toBe("format");
+    expect(errorCode(() => migrateCollection({ schemaVersion: 3, champions: {} }))).toBe(
+      "format",
+    );
+    expect(errorCode(() => migrateCollection(null))).toBe("format");
+  });
+});
+
+describe("parseCollection", () => {
+  it("rejects text that isn't JSON", () => {
+    expect(errorCode(() => parseCollection("{"))).toBe("parse");
+  });
+});
+
+describe("loadChampions", () => {
+  let localStorage: Storage;
+
+  beforeEach(() => {
+    localStorage = memoryStorage();
+    vi.stubGlobal("window", { localStorage, sessionStorage: memoryStorage() });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const ahriOf = (champions: { name: string; skins: unknown[] }[]) =>
+    champions.find((champion) => champion.name === "Ahri")?.skins;
+
+  it("reads the current version without an issue or a backup", () => {
+    localStorage.setItem(
+      "lol-skins-tracker:champions",
+      JSON.stringify({ schemaVersion: SCHEMA_VERSION, champions: [{ ...V1[0], skins: V3_SKINS }] }),
+    );
+
+    const { champions, issue } = loadChampions("default");
+
+    expect(issue).toBeNull();
+    expect(ahriOf(champions)).toMatchObject(V3_SKINS);
+    expect(readBackups()).toEqual([]);
+  });
+
+  it("backs up an older version before migrating it", () => {
+    const raw = JSON.stringify(V1);
+    localStorage.setItem("lol-skins-tracker:champions:profile_b", raw);
+
+    const { champions, issue } = loadChampions("profile_b");
+
+    expect(issue).toEqual({ kind: "migrated", from: 1, backedUp: true });
+    expect(ahriOf(champions)).toMatchObject(V3_SKINS);
+    expect(readBackups()).toMatchObject([{ reason: "profile_b: migration from v1", raw }]);
+  });
+
+  it("backs up unreadable data and starts over", () => {
+    localStorage.setItem("lol-skins-tracker:champions", '{"schemaVersion": 9, "champions": []}');
+    localStorage.setItem("lol-skins-tracker:champions:profile_b", "not json");
+
+    expect(loadChampions("default").issue).toEqual({ kind: "newer", backedUp: true });
+    const { champions, issue } = loadChampions("profile_b");
+
+    expect(issue).toEqual({ kind: "parse", backedUp: true });
+    expect(champions.every((champion) => champion.skins.length === 0)).toBe(true);
+    expect(readBackups().map((backup) => backup.reason)).toEqual([
+      "profile_b: reset after parse error",
+      "default: reset after newer error",
+    ]);
+  });
+
+  it("reports when the backup can't be kept", () => {
+    localStorage.setItem("lol-skins-tracker:champions", JSON.stringify(V1));
+    localStorage.setItem = () => {
+      throw new Error("QuotaExceededError");
+    };
+
+    expect(loadChampions("default").issue).toEqual({ kind: "migrated", from: 1, backedUp: false });
+  });
+});
@@ -0,0 +1,352 @@
+import {
+  createDefaultChampions,
+  sanitizeChampions,
+  type Champion,
+  type SanitizeReport,
+} from "./collection";
+import { DEFAULT_PROFILE_ID } from "./profiles";
+import { formatTable, type TableFormat } from "./spreadsheet";
+
+const STORAGE_KEY = "lol-skins-tracker:champions";
+const BACKUPS_KEY = "lol-skins-tracker:backups";
+const HISTORY_KEY = "lol-skins-tracker:history";
+const MAX_BACKUPS = 3;
+
+const collectionKey = (profileId: string): string =>
+  profileId === DEFAULT_PROFILE_ID ? STORAGE_KEY : `${STORAGE_KEY}:${profileId}`;
+
+/** sessionStorage key of the profile's undo history. */
+export const historyKey = (profileId: string): string => `${HISTORY_KEY}:${profileId}`;
+
+/**
+ * Version of the stored and exported format. Version 1 is the original bare
+ * `Champion[]` array; from version 2 on, the collection is wrapped in an
+ * envelope carrying `schemaVersion`. Version 3 replaces the skins' `checked`
+ * flag with a `status`.
+ */
+export const SCHEMA_VERSION = 3;
+
+type StoredCollection = {
+  schemaVersion: number;
+  champions: unknown;
+};
+
+type Migration = {
+  to: number;
+  migrate: (data: unknown) => unknown;
+};
+
+// Ordered steps; each one takes data at version `to - 1` to version `to`.
+const MIGRATIONS: Migration[] = [
+  {
+    to: 2,
+    migrate: (data) => ({ schemaVersion: 2, champions: data }),
+  },
+  {
+    to: 3,
+    migrate: (data) => {
+      const { champions } = data as StoredCollection;
+      return {
+        schemaVersion: 3,
+        champions: Array.isArray(champions)
+          ? champions.map((champion: { skins?: unknown }) =>
+              champion && Array.isArray(champion.skins)
+                ? {
+                    ...champion,
+                    skins: champion.skins.map((skin: { checked?: unknown } | null) => {
+                      if (!skin || typeof skin !== "object") return skin;
+                      const { checked, ...rest } = skin;
+                      return { ...rest, status: checked ? "owned" : "unknown" };
+                    }),
+                  }
+                : champion,
+            )
+          : champions,
+      };
+    },
+  },
+];
+
+export type StorageErrorCode = "parse" | "format" | "newer";
+
+export class StorageError extends Error {
+  code: StorageErrorCode;
+
+  constructor(code: StorageErrorCode, message: string) {
+    super(message);
+    this.name = "StorageError";
+    this.code = code;
+  }
+}
+
+export type StorageIssue =
+  | { kind: StorageErrorCode; backedUp: boolean }
+  | { kind: "migrated"; from: number; backedUp: boolean }
+  | { kind: "dropped"; count: number; backedUp: boolean }
+  | { kind: "save" };
+
+export type Backup = {
+  createdAt: string;
+  reason: string;
+  raw: string;
+};
+
+function schemaVersionOf(data: unknown): number {
+  if (Array.isArray(data)) {
+    return 1;
+  }
+
+  const version = (data as Partial<StoredCollection> | null)?.schemaVersion;
+  if (typeof version === "number" && Number.isInteger(version) && version > 0) {
+    return version;
+  }
+
+  throw new StorageError("format", "unrecognized collection format");
+}
+
+/**
+ * Brings parsed JSON (stored or imported) up to the current schema. Throws a
+ * `StorageError` when the data isn't a collection or comes from a newer
+ * version of the app.
+ */
+export function migrateCollection(data: unknown): {
+  champions: unknown;
+  from: number;
+} {
+  const from = schemaVersionOf(data);
+  if (from > SCHEMA_VERSION) {
+    throw new StorageError("newer", `schema version ${from} is newer than ${SCHEMA_VERSION}`);
+  }
+
+  let current = data;
+  for (const step of MIGRATIONS) {
+    if (step.to > from) {
+      current = step.migrate(current);
+    }
+  }
+
+  const { champions } = current as StoredCollection;
+  if (!Array.isArray(champions)) {
+    throw new StorageError("format", "the collection must contain an array of champions");
+  }
+
+  return { champions, from };
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new StorageError("parse", "invalid JSON");
+  }
+}
+
+/** Parses an exported or stored collection text into sanitized champions. */
+export function parseCollection(
+  text: string,
+  report?: SanitizeReport,
+): { champions: Champion[]; from: number } {
+  const { champions, from } = migrateCollection(parseJson(text));
+  return { champions: sanitizeChampions(champions, report), from };
+}
+
+/**
+ * Parses a collection file to import. Sanitizing fills in the rest of the
+ * roster; like a sheet, only the champions the file lists are kept, so a
+ * partial file doesn't empty the others.
+ */
+export function parseImportedCollection(text: string): { champions: Champion[] } {
+  const { champions } = migrateCollection(parseJson(text));
+  const names = new Set(
+    (champions as unknown[]).flatMap((champion) => {
+      const name = (champion as { name?: unknown } | null)?.name;
+      return typeof name === "string" ? [name] : [];
+    }),
+  );
+
+  return {
+    champions: sanitizeChampions(champions).filter((champion) => names.has(champion.name)),
+  };
+}
+
+export function readBackups(): Backup[] {
+  if (typeof window === "undefined") {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(BACKUPS_KEY) ?? "[]") as unknown;
+    return Array.isArray(parsed) ? (parsed as Backup[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function backupRaw(raw: string, reason: string): boolean {
+  const backups = [
+    { createdAt: new Date().toISOString(), reason, raw },
+    ...readBackups(),
+  ].slice(0, MAX_BACKUPS);
+
+  try {
+    window.localStorage.setItem(BACKUPS_KEY, JSON.stringify(backups));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Loads the collection. Anything other than a clean read at the current
+ * version (migration, dropped entries, unreadable data) keeps a backup of the
+ * raw value and comes back with an issue for the UI to show.
+ */
+export function loadChampions(profileId: string): {
+  champions: Champion[];
+  issue: StorageIssue | null;
+} {
+  if (typeof window === "undefined") {
+    return { champions: createDefaultChampions(), issue: null };
+  }
+
+  const raw = window.localStorage.getItem(collectionKey(profileId));
+  if (!raw) {
+    return { champions: createDefaultChampions(), issue: null };
+  }
+
+  try {
+    const report: SanitizeReport = { dropped: 0 };
+    const { champions, from } = parseCollection(raw, report);
+
+    if (report.dropped > 0) {
+      const backedUp = backupRaw(raw, `${profileId}: dropped ${report.dropped} entries`);
+      return { champions, issue: { kind: "dropped", count: report.dropped, backedUp } };
+    }
+
+    if (from < SCHEMA_VERSION) {
+      const backedUp = backupRaw(raw, `${profileId}: migration from v${from}`);
+      return { champions, issue: { kind: "migrated", from, backedUp } };
+    }
+
+    return { champions, issue: null };
+  } catch (error) {
+    const kind = error instanceof StorageError ? error.code : "parse";
+    const backedUp = backupRaw(raw, `${profileId}: reset after ${kind} error`);
+    return { champions: createDefaultChampions(), issue: { kind, backedUp } };
+  }
+}
+
+/**
+ * Reads the collection for display only: unlike `loadChampions`, it keeps no
+ * backup and reports nothing, leaving both to the tracker.
+ */
+export function readChampions(profileId: string): Champion[] {
+  if (typeof window === "undefined") {
+    return createDefaultChampions();
+  }
+
+  const raw = window.localStorage.getItem(collectionKey(profileId));
+  if (!raw) {
+    return createDefaultChampions();
+  }
+
+  try {
+    return parseCollection(raw).champions;
+  } catch {
+    return createDefaultChampions();
+  }
+}
+
+export function saveChampions(profileId: string, champions: Champion[]): boolean {
+  if (typeof window === "undefined") {
+    return true;
+  }
+
+  const stored: StoredCollection = { schemaVersion: SCHEMA_VERSION, champions };
+  try {
+    window.localStorage.setItem(collectionKey(profileId), JSON.stringify(stored));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Removes the profile's collection and its undo history. */
+export function removeChampions(profileId: string): void {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  window.localStorage.removeItem(collectionKey(profileId));
+  window.sessionStorage.removeItem(historyKey(profileId));
+}
+
+const fileSlug = (value: string): string =>
+  value
+    .normalize("NFD")
+    .replace(/\p{Diacritic}/gu, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+function downloadText(text: string, filename: string, type: string): void {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+
+  link.href = url;
+  link.download = filename;
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
+
+export function exportChampions(champions: Champion[], profileName: string): void {
+  const exported: StoredCollection & { exportedAt: string } = {
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    champions,
+  };
+
+  downloadText(
+    JSON.stringify(exported, null, 2),
+    `lol-skins-tracker-${fileSlug(profileName) || "profil"}.json`,
+    "application/json",
+  );
+}
+
+export function exportChampionsTable(
+  champions: Champion[],
+  profileName: string,
+  format: TableFormat,
+): void {
+  // the BOM lets spreadsheet apps pick UTF-8 for accented names
+  downloadText(
+    `\uFEFF${formatTable(champions, format)}`,
+    `lol-skins-tracker-${fileSlug(profileName) || "profil"}.${format}`,
+    format === "csv" ? "text/csv" : "text/tab-separated-values",
+  );
+}
+
+/** Downloads the collection as stored, e.g. when it couldn't be backed up. */
+export function downloadStoredChampions(profileId: string): void {
+  const raw = window.localStorage.getItem(collectionKey(profileId));
+  if (raw === null) {
+    return;
+  }
+
+  downloadText(raw, `lol-skins-tracker-original-${fileSlug(profileId)}.json`, "application/json");
+}
+
+export function downloadLatestBackup(): void {
+  const [latest] = readBackups();
+  if (!latest) {
+    return;
+  }
+
+  downloadText(
+    latest.raw,
+    `lol-skins-tracker-backup-${latest.createdAt.replace(/[:.]/g, "-")}.json`,
+    "application/json",
+  );
+}
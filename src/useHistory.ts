@@ -0,0 +1,277 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+/** Steps kept in memory and across reloads. */
+const HISTORY_LIMIT = 30;
+
+// Edits in a burst (typing a cost, ticking chromas) are saved once.
+const SAVE_DELAY = 500;
+
+// Characters of stored history; older steps are dropped past it, well under
+// the sessionStorage quota.
+const MAX_STORED_LENGTH = 2_000_000;
+
+type Entry<T> = {
+  state: T;
+  label: string;
+};
+
+type HistoryState<T> = {
+  past: Entry<T>[];
+  present: T;
+  future: Entry<T>[];
+};
+
+// Steps share most of their items (an edit replaces only the champions it
+// touches), so each distinct item is stored once and steps list indices.
+type StoredEntry = {
+  label: string;
+  items: number[];
+};
+
+type StoredHistory = {
+  signature: string;
+  pool: unknown[];
+  past: StoredEntry[];
+  future: StoredEntry[];
+};
+
+// Items are immutable, so their JSON is kept for the next saves.
+const jsonCache = new WeakMap<object, string>();
+
+function toJson(item: unknown): string {
+  if (typeof item !== "object" || item === null) {
+    return JSON.stringify(item) ?? "null";
+  }
+
+  let json = jsonCache.get(item);
+  if (json === undefined) {
+    json = JSON.stringify(item);
+    jsonCache.set(item, json);
+  }
+  return json;
+}
+
+// Cheap fingerprint of the present value: stored history is only reused when
+// the collection it was recorded against is still the one loaded.
+function signatureOf(items: readonly unknown[]): string {
+  const text = `[${items.map(toJson).join(",")}]`;
+  let hash = 5381;
+  for (let i = 0; i < text.length; i += 1) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return `${text.length}:${hash >>> 0}`;
+}
+
+const isStoredEntry = (value: unknown, poolSize: number): value is StoredEntry => {
+  const entry = value as Partial<StoredEntry> | null;
+  return (
+    typeof entry?.label === "string" &&
+    Array.isArray(entry.items) &&
+    entry.items.every((index) => Number.isInteger(index) && index >= 0 && index < poolSize)
+  );
+};
+
+function loadHistory<T extends readonly unknown[]>(
+  storageKey: string,
+  present: T,
+): HistoryState<T> {
+  const empty = { past: [], present, future: [] };
+  if (typeof window === "undefined") {
+    return empty;
+  }
+
+  try {
+    const raw = window.sessionStorage.getItem(storageKey);
+    if (!raw) {
+      return empty;
+    }
+
+    const stored = JSON.parse(raw) as Partial<StoredHistory>;
+    const pool = stored.pool;
+    if (
+      stored.signature !== signatureOf(present) ||
+      !Array.isArray(pool) ||
+      !Array.isArray(stored.past) ||
+      !Array.isArray(stored.future) ||
+      ![...stored.past, ...stored.future].every((entry) => isStoredEntry(entry, pool.length))
+    ) {
+      return empty;
+    }
+
+    const decode = (entry: StoredEntry): Entry<T> => ({
+      label: entry.label,
+      state: entry.items.map((index) => pool[index]) as unknown as T,
+    });
+    return { past: stored.past.map(decode), present, future: stored.future.map(decode) };
+  } catch {
+    return empty;
+  }
+}
+
+function saveHistory<T extends readonly unknown[]>(
+  storageKey: string,
+  history: HistoryState<T>,
+): void {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  // History lives in sessionStorage: it survives reloads of the tab without
+  // eating into the collection's localStorage quota. The steps nearest the
+  // present are kept first, until the pool outgrows MAX_STORED_LENGTH.
+  const pool: string[] = [];
+  const indexOf = new Map<unknown, number>();
+  let length = 0;
+
+  const encode = (entry: Entry<T>): StoredEntry | null => {
+    const fresh = [...new Set(entry.state.filter((item) => !indexOf.has(item)))];
+    const added = fresh.reduce<number>((total, item) => total + toJson(item).length + 1, 0);
+    if (length + added > MAX_STORED_LENGTH) {
+      return null;
+    }
+
+    for (const item of fresh) {
+      indexOf.set(item, pool.length);
+      pool.push(toJson(item));
+    }
+    length += added;
+    return { label: entry.label, items: entry.state.map((item) => indexOf.get(item) as number) };
+  };
+
+  const encodeAll = (entries: Entry<T>[]): StoredEntry[] => {
+    const encoded: StoredEntry[] = [];
+    for (const entry of entries) {
+      const stored = encode(entry);
+      if (!stored) break;
+      encoded.push(stored);
+    }
+    return encoded;
+  };
+
+  const past = encodeAll([...history.past].reverse()).reverse();
+  const future = encodeAll(history.future);
+  const text =
+    `{"signature":${JSON.stringify(signatureOf(history.present))},` +
+    `"pool":[${pool.join(",")}],` +
+    `"past":${JSON.stringify(past)},"future":${JSON.stringify(future)}}`;
+
+  try {
+    window.sessionStorage.setItem(storageKey, text);
+  } catch {
+    window.sessionStorage.removeItem(storageKey);
+  }
+}
+
+export type History<T> = {
+  state: T;
+  /** Applies a user edit and records the previous state under `label`. */
+  commit: (updater: (previous: T) => T, label: string) => void;
+  /**
+   * Applies a background update (catalog sync, roster changes) to the present
+   * and to every recorded step, without adding a step of its own.
+   */
+  patch: (updater: (previous: T) => T) => void;
+  undo: () => void;
+  redo: () => void;
+  undoLabel: string | null;
+  redoLabel: string | null;
+};
+
+export function useHistory<T extends readonly unknown[]>(
+  initial: () => T,
+  storageKey: string,
+): History<T> {
+  const [history, setHistory] = useState<HistoryState<T>>(() =>
+    loadHistory(storageKey, initial()),
+  );
+  // set while a save is waiting on SAVE_DELAY
+  const unsaved = useRef<HistoryState<T> | null>(null);
+
+  useEffect(() => {
+    unsaved.current = history;
+    const timer = window.setTimeout(() => {
+      unsaved.current = null;
+      saveHistory(storageKey, history);
+    }, SAVE_DELAY);
+
+    return () => window.clearTimeout(timer);
+  }, [storageKey, history]);
+
+  // A waiting save still happens when the tab is left. Not on unmount: the
+  // profile may have just been deleted, along with its history.
+  useEffect(() => {
+    const flush = () => {
+      if (unsaved.current) {
+        saveHistory(storageKey, unsaved.current);
+        unsaved.current = null;
+      }
+    };
+
+    window.addEventListener("pagehide", flush);
+    return () => window.removeEventListener("pagehide", flush);
+  }, [storageKey]);
+
+  // Stable callbacks, so effects can patch without re-running.
+  const commit = useCallback((updater: (previous: T) => T, label: string) => {
+    setHistory((previous) => {
+      const next = updater(previous.present);
+      if (Object.is(next, previous.present)) {
+        return previous;
+      }
+
+      return {
+        past: [...previous.past, { state: previous.present, label }].slice(-HISTORY_LIMIT),
+        present: next,
+        future: [],
+      };
+    });
+  }, []);
+
+  const patch = useCallback((updater: (previous: T) => T) => {
+    setHistory((previous) => ({
+      past: previous.past.map((entry) => ({ ...entry, state: updater(entry.state) })),
+      present: updater(previous.present),
+      future: previous.future.map((entry) => ({ ...entry, state: updater(entry.state) })),
+    }));
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory((previous) => {
+      const entry = previous.past[previous.past.length - 1];
+      if (!entry) {
+        return previous;
+      }
+
+      return {
+        past: previous.past.slice(0, -1),
+        present: entry.state,
+        future: [{ state: previous.present, label: entry.label }, ...previous.future],
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory((previous) => {
+      const [entry, ...future] = previous.future;
+      if (!entry) {
+        return previous;
+      }
+
+      return {
+        past: [...previous.past, { state: previous.present, label: entry.label }],
+        present: entry.state,
+        future,
+      };
+    });
+  }, []);
+
+  return {
+    state: history.present,
+    commit,
+    patch,
+    undo,
+    redo,
+    undoLabel: history.past[history.past.length - 1]?.label ?? null,
+    redoLabel: history.future[0]?.label ?? null,
+  };
+}
@@ -0,0 +1,222 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  fetchActivePlayer,
+  fetchEventData,
+  fetchGameStats,
+  fetchPlayerList,
+  LiveClientError,
+  riotIdOf,
+  type LiveActivePlayer,
+  type LiveClientErrorCode,
+  type LiveEvent,
+  type LivePlayer,
+} from "./liveClient";
+import type { FeedPhase } from "./liveFeed";
+import { loadPlayedGames, trackGameReading, type PlayedGame } from "./playedGames";
+import { loadSeenGames, recordSeenGame, type SeenGame } from "./seenGames";
+import { toLiveSkin, type LiveGame } from "./useLiveSkinWatcher";
+
+const GAME_POLL_INTERVAL = 3_000;
+const IDLE_POLL_INTERVAL = 10_000;
+// Seconds of game clock between two updates of the game being recorded.
+const TRACK_INTERVAL = 10;
+
+export type LiveStatus = "connecting" | "loaded" | LiveClientErrorCode;
+
+export type LiveGameState = {
+  status: LiveStatus;
+  /** Whether a read asked for (the first one, or `refresh`) is running. */
+  loading: boolean;
+  activePlayer: LiveActivePlayer | null;
+  players: LivePlayer[];
+  events: LiveEvent[];
+  /** `null` until a game is read; the last game's data stays once it's over. */
+  phase: FeedPhase | null;
+  /** The game being played, `null` outside one or once it has ended. */
+  game: LiveGame | null;
+  /** The active profile's recorded lineups and games. */
+  seenGames: SeenGame[];
+  playedGames: PlayedGame[];
+  /** Reads the game now, even one that has ended. */
+  refresh: () => void;
+};
+
+type FollowedGame = {
+  gameTime: number;
+  ended: boolean;
+  lineupRecorded: boolean;
+  /** Game clock when the game was last passed to `trackGameReading`. */
+  trackedAt: number | null;
+};
+
+/**
+ * Follows the Live Client for the whole app, whatever page is open, and
+ * records each game's lineup and the local player's game for `profileId`.
+ * Polls every few seconds during a game, more slowly while waiting for one or
+ * after an error. Once a game has ended only `gamestats` is watched, for the
+ * next game.
+ */
+export function useLiveGame(profileId: string): LiveGameState {
+  const [loading, setLoading] = useState(false);
+  const [status, setStatus] = useState<LiveStatus>("connecting");
+  const [activePlayer, setActivePlayer] = useState<LiveActivePlayer | null>(null);
+  const [players, setPlayers] = useState<LivePlayer[]>([]);
+  const [events, setEvents] = useState<LiveEvent[]>([]);
+  const [phase, setPhase] = useState<FeedPhase | null>(null);
+  const [game, setGame] = useState<LiveGame | null>(null);
+  const [records, setRecords] = useState(() => ({
+    profileId,
+    seenGames: loadSeenGames(profileId),
+    playedGames: loadPlayedGames(profileId),
+  }));
+  // bumped by `refresh` to poll at once
+  const [refreshes, setRefreshes] = useState(0);
+  // kept across `refresh` restarts of the polling
+  const followed = useRef<FollowedGame | null>(null);
+  const profileRef = useRef(profileId);
+
+  if (records.profileId !== profileId) {
+    setRecords({
+      profileId,
+      seenGames: loadSeenGames(profileId),
+      playedGames: loadPlayedGames(profileId),
+    });
+  }
+
+  useEffect(() => {
+    profileRef.current = profileId;
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    let timer: number | undefined;
+
+    const track = (reading: LiveGame | null) => {
+      const played = trackGameReading(
+        profileRef.current,
+        reading?.self ? { ...reading.self, mode: reading.mode, gameTime: reading.gameTime } : null,
+      );
+      if (played) {
+        setRecords((previous) => ({ ...previous, playedGames: played }));
+      }
+    };
+
+    const poll = async (forced: boolean) => {
+      let delay = IDLE_POLL_INTERVAL;
+
+      try {
+        // gamestats first: it tells "no game" from "still loading"
+        const stats = await fetchGameStats();
+        const previous = followed.current;
+        // a clock behind the last reading's is a new game
+        const sameGame = previous !== null && stats.gameTime >= previous.gameTime;
+
+        if (!sameGame || !previous.ended || forced) {
+          const [active, list, data] = await Promise.all([
+            fetchActivePlayer(),
+            fetchPlayerList(),
+            fetchEventData(),
+          ]);
+          if (cancelled) {
+            return;
+          }
+
+          const current: FollowedGame = sameGame
+            ? previous
+            : { gameTime: 0, ended: false, lineupRecorded: false, trackedAt: null };
+          current.gameTime = stats.gameTime;
+          current.ended = data.Events.some((event) => event.EventName === "GameEnd");
+          followed.current = current;
+
+          const riotId = riotIdOf(active);
+          const self = list.find((player) => riotId && riotIdOf(player) === riotId);
+          const reading: LiveGame = {
+            players: list.map(toLiveSkin),
+            self: self ? toLiveSkin(self) : null,
+            mode: stats.gameMode,
+            gameTime: stats.gameTime,
+          };
+
+          if (!current.lineupRecorded && list.length > 0) {
+            const lineup = recordSeenGame(profileRef.current, reading.players);
+            if (lineup) {
+              setRecords((previous) => ({ ...previous, seenGames: lineup }));
+            }
+            current.lineupRecorded = true;
+          }
+
+          // without the local player's line there's nothing to record, but
+          // the game isn't over either
+          if (
+            reading.self &&
+            (current.trackedAt === null ||
+              current.ended ||
+              reading.gameTime - current.trackedAt >= TRACK_INTERVAL)
+          ) {
+            track(reading);
+            current.trackedAt = reading.gameTime;
+          }
+
+          setActivePlayer(active);
+          setPlayers(list);
+          setEvents(data.Events);
+          setPhase(current.ended ? "ended" : "live");
+          setGame(current.ended ? null : reading);
+          setStatus("loaded");
+          if (!current.ended) {
+            delay = GAME_POLL_INTERVAL;
+          }
+        }
+      } catch (caughtError) {
+        if (cancelled) {
+          return;
+        }
+
+        const code = caughtError instanceof LiveClientError ? caughtError.code : "unexpected";
+        setStatus(code);
+        // only these say the game is over, whether followed here or left
+        // stored by an earlier visit; an unreachable game may go on
+        if ((code === "noGame" || code === "notRunning") && (followed.current || forced)) {
+          track(null);
+        }
+        if (code === "noGame" || code === "notRunning" || code === "tls") {
+          setPhase((previous) => (previous === "live" ? "closed" : previous));
+          setGame(null);
+          followed.current = null;
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+
+      if (!cancelled) {
+        timer = window.setTimeout(() => void poll(false), delay);
+      }
+    };
+
+    // only the first poll, or one asked for, shows as loading
+    setLoading(true);
+    void poll(true);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [refreshes]);
+
+  const refresh = useCallback(() => setRefreshes((count) => count + 1), []);
+
+  return {
+    status,
+    loading,
+    activePlayer,
+    players,
+    events,
+    phase,
+    game,
+    seenGames: records.seenGames,
+    playedGames: records.playedGames,
+    refresh,
+  };
+}
@@ -0,0 +1,86 @@
+import { useEffect, useRef } from "react";
+import type { LivePlayer } from "./liveClient";
+
+/** A player's champion and skin, as reported by the Live Client. */
+export type LiveSkin = {
+  /** Data Dragon champion id (e.g. "MonkeyKing"), when the client gives one. */
+  championKey: string | null;
+  championName: string;
+  /** Skin number within the champion; 0 is the base skin. */
+  skinNum: number;
+  team?: string;
+};
+
+/** Every player's skin, which one is the local player's, and the game's state. */
+export type LiveGame = {
+  players: LiveSkin[];
+  self: LiveSkin | null;
+  /** e.g. "CLASSIC" or "ARAM" */
+  mode: string;
+  /** Game clock, in seconds. */
+  gameTime: number;
+};
+
+export type WatcherState = "off" | "waiting" | "inGame";
+
+const WATCH_STORAGE_KEY = "lol-skins-tracker:live-watch";
+
+// "game_character_displayname_MonkeyKing" -> "MonkeyKing"
+const championKeyOf = (rawName: string | undefined): string | null =>
+  rawName?.match(/^game_character_displayname_(\w+)$/)?.[1] ?? null;
+
+export const toLiveSkin = (player: LivePlayer): LiveSkin => ({
+  championKey: championKeyOf(player.rawChampionName),
+  championName: player.championName,
+  skinNum: player.skinID,
+  team: player.team,
+});
+
+export function loadWatchPreference(): boolean {
+  if (typeof window === "undefined") {
+    return false;
+  }
+
+  return window.localStorage.getItem(WATCH_STORAGE_KEY) === "on";
+}
+
+export function saveWatchPreference(enabled: boolean): void {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  window.localStorage.setItem(WATCH_STORAGE_KEY, enabled ? "on" : "off");
+}
+
+/**
+ * Passes the local player's skin in `game` (see `useLiveGame`) to `onSkin`
+ * while `enabled`, once per champion and skin during the session, so undoing
+ * the change it leads to doesn't get redone on the next reading.
+ */
+export function useLiveSkinWatcher(
+  enabled: boolean,
+  game: LiveGame | null,
+  onSkin: (skin: LiveSkin) => void,
+): WatcherState {
+  const onSkinRef = useRef(onSkin);
+  const seenRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    onSkinRef.current = onSkin;
+  });
+
+  useEffect(() => {
+    const skin = game?.self;
+    if (!enabled || !skin) {
+      return;
+    }
+
+    const key = `${skin.championKey ?? skin.championName}:${skin.skinNum}`;
+    if (!seenRef.current.has(key)) {
+      seenRef.current.add(key);
+      onSkinRef.current(skin);
+    }
+  }, [enabled, game]);
+
+  return !enabled ? "off" : game ? "inGame" : "waiting";
+}
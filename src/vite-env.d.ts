@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_DDRAGON_SOURCE?: string;
+  readonly VITE_DDRAGON_URL?: string;
+  readonly VITE_DDRAGON_VERSION?: string;
+  readonly VITE_CDRAGON_URL?: string;
+  readonly VITE_LCU_URL?: string;
+  readonly VITE_LIVE_CLIENT_URL?: string;
+}
@@ -1,17 +1,29 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react()],
-  server: {
-    proxy: {
-      '/riot-local': {
-        target: 'https://127.0.0.1:2999',
-        changeOrigin: true,
-        secure: false,
-        rewrite: (path) => path.replace(/^\/riot-local/, ''),
+export default defineConfig(({ mode }) => {
+  // LIVE_CLIENT_TARGET swaps the game for scripts/mock-live-client.mjs
+  const env = loadEnv(mode, '.', '')
+
+  return {
+    plugins: [react()],
+    server: {
+      proxy: {
+        '/riot-local': {
+          target: env.LIVE_CLIENT_TARGET || 'https://127.0.0.1:2999',
+          changeOrigin: true,
+          secure: false,
+          rewrite: (path) => path.replace(/^\/riot-local/, ''),
+        },
+        // scripts/lcu-companion.mjs, which reads the League Client lockfile
+        '/riot-lcu': {
+          target: 'http://127.0.0.1:2997',
+          // the companion only answers requests addressed to itself
+          changeOrigin: true,
+          rewrite: (path) => path.replace(/^\/riot-lcu/, '/lcu'),
+        },
       },
     },
-  },
+  }
 })